@@ -0,0 +1,83 @@
+/**
+ * Point-in-time retrieval: as_of_date selects the provision version in force
+ * before, within and after a validity window. The bundled database has no
+ * superseded wordings, so the tests add one to a copy of it.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { copyFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { getProvision } from '../../src/tools/get-provision.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dbPath = join(__dirname, '../../data/database.db');
+
+const DPA = 'data-protection-act-2019';
+/** Test fixture, not a past wording of the Act. */
+const EARLIER_WORDING = 'Earlier wording fixture.';
+const AMENDED_ON = '2023-01-01';
+
+let tempDir: string;
+let db: InstanceType<typeof Database>;
+let currentWording: string;
+
+beforeAll(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'as-of-date-'));
+  const copy = join(tempDir, 'database.db');
+  copyFileSync(dbPath, copy);
+  db = new Database(copy);
+
+  const current = db.prepare(
+    'SELECT content, valid_from FROM legal_provisions WHERE document_id = ? AND provision_ref = ? AND valid_to IS NULL'
+  ).get(DPA, 's26') as { content: string; valid_from: string };
+  currentWording = current.content;
+  db.prepare(
+    'UPDATE legal_provisions SET valid_from = ? WHERE document_id = ? AND provision_ref = ? AND valid_to IS NULL'
+  ).run(AMENDED_ON, DPA, 's26');
+  db.prepare(`
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, valid_from, valid_to)
+    SELECT document_id, provision_ref, chapter, section, title, ?, ?, valid_from
+    FROM legal_provisions WHERE document_id = ? AND provision_ref = ? AND valid_to IS NULL
+  `).run(EARLIER_WORDING, current.valid_from, DPA, 's26');
+});
+
+afterAll(() => {
+  db.close();
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+const contentOn = async (asOfDate?: string) =>
+  (await getProvision(db, { document_id: DPA, section: '26', as_of_date: asOfDate })).results.map(p => p.content);
+
+describe('as_of_date', () => {
+  it('finds no version before the Act came into force', async () => {
+    expect(await contentOn('2019-01-01')).toEqual([]);
+  });
+
+  it('returns the superseded wording within its window', async () => {
+    expect(await contentOn('2020-06-01')).toEqual([EARLIER_WORDING]);
+  });
+
+  it('returns the current wording from the day the window closes', async () => {
+    expect(await contentOn(AMENDED_ON)).toEqual([currentWording]);
+    expect(await contentOn('2025-06-01')).toEqual([currentWording]);
+  });
+
+  it('returns the current wording without a date', async () => {
+    expect(await contentOn()).toEqual([currentWording]);
+  });
+});
+
+describe('provision versions', () => {
+  it('allow only one version without a start date', () => {
+    const insert = db.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, section, content, valid_from, valid_to)
+      VALUES (?, 's9999', '9999', ?, NULL, NULL)
+    `);
+    insert.run(DPA, 'First');
+    expect(() => insert.run(DPA, 'Second')).toThrow(/UNIQUE/);
+  });
+});
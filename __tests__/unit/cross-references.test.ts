@@ -0,0 +1,96 @@
+/**
+ * Cross-reference extraction from statute text, and the provisions a
+ * judgment discusses.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  classifyTreatment,
+  extractCrossReferences,
+  extractJudicialTreatments,
+  type ActTitleIndex,
+} from '../../scripts/lib/cross-references.js';
+
+const INDEX: ActTitleIndex = {
+  byTitle: new Map([
+    ['companies act', 'companies-act-2015'],
+    ['proceeds of crime and anti money laundering act', 'proceeds-of-crime-aml-act-2009'],
+    ['evidence act', 'evidence-act'],
+  ]),
+  yearById: new Map<string, string | null>([
+    ['companies-act-2015', '2015'],
+    ['proceeds-of-crime-aml-act-2009', '2009'],
+    ['evidence-act', null],
+  ]),
+};
+
+const extract = (text: string) =>
+  extractCrossReferences(text, 'companies-act-2015', INDEX, 'constitution-of-kenya-2010')
+    .map(r => `${r.targetDocumentId} ${r.targetProvisionRef ?? ''}`.trim());
+
+describe('extractCrossReferences', () => {
+  it('reads unqualified and "this Act" sections as the same Act', () => {
+    expect(extract('Subject to section 25 and sections 22, 23 and 24 of this Act')).toEqual([
+      'companies-act-2015 s25',
+      'companies-act-2015 s22',
+      'companies-act-2015 s23',
+      'companies-act-2015 s24',
+    ]);
+  });
+
+  it('resolves sections of a named Act and Articles of the Constitution', () => {
+    expect(extract('section 2 of the Proceeds of Crime and Anti-Money Laundering Act')).toEqual([
+      'proceeds-of-crime-aml-act-2009 s2',
+    ]);
+    expect(extract('as guaranteed by Article 31(c) of the Constitution')).toEqual(['constitution-of-kenya-2010 s31']);
+  });
+
+  it('skips sections of instruments that are not in the database', () => {
+    expect(extract(
+      'commits an offence under section 107 of the Penal Code (Cap. 63) or section 114 of that Code (false swearing)',
+    )).toEqual([]);
+    expect(extract('section 19(3) and (4) of the Exchequer and Audit Act')).toEqual([]);
+  });
+
+  it('does not resolve an Act of another year or chapter', () => {
+    expect(extract('section 342 of the Companies Act (Cap. 486)')).toEqual([]);
+    expect(extract('the Companies Act, 1948')).toEqual([]);
+  });
+
+  it('records bare mentions of other Acts', () => {
+    expect(extract('admissible under the Evidence Act')).toEqual(['evidence-act']);
+  });
+});
+
+describe('extractJudicialTreatments', () => {
+  const treatments = (text: string) =>
+    extractJudicialTreatments(text, INDEX, 'constitution-of-kenya-2010')
+      .map(t => `${t.document_id} ${t.provision_ref} ${t.treatment}`);
+
+  it('takes only sections qualified by a statute, classified by their sentence', () => {
+    expect(treatments(
+      'Section 5 is cited without an Act. The court interpreted section 2 of the Proceeds of Crime and Anti-Money Laundering Act. ' +
+      'Article 31 of the Constitution was applied.',
+    )).toEqual([
+      'proceeds-of-crime-aml-act-2009 s2 interpreted',
+      'constitution-of-kenya-2010 s31 applied',
+    ]);
+  });
+
+  it('reads every section of a list, including bare subsections', () => {
+    expect(treatments('Sections 22(1) and (2), 23 and 24 of the Companies Act are unconstitutional.')).toEqual([
+      'companies-act-2015 s22 declared_unconstitutional',
+      'companies-act-2015 s23 declared_unconstitutional',
+      'companies-act-2015 s24 declared_unconstitutional',
+    ]);
+  });
+});
+
+describe('classifyTreatment', () => {
+  it('lets the strongest treatment win', () => {
+    expect(classifyTreatment('The court suspended and later declared the section unconstitutional.')).toBe('declared_unconstitutional');
+    expect(classifyTreatment('Conservatory orders issued; the meaning of the section was construed.')).toBe('suspended');
+    expect(classifyTreatment('The accused was charged under the section.')).toBe('applied');
+    expect(classifyTreatment('See the section.')).toBe('cited');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Build-time embedding model: reproducible training and topic separation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { trainEmbeddingModel } from '../../scripts/lib/embeddings.js';
+
+const TEXTS = [
+  'A data controller shall notify the Data Commissioner of a personal data breach.',
+  'The data subject may request erasure of personal data held by a data controller.',
+  'Personal data shall be processed lawfully by a data controller or data processor.',
+  'A data processor shall report a personal data breach to the data controller.',
+  'A company shall keep a register of members and file an annual return.',
+  'The directors of a company shall prepare annual accounts for the members.',
+  'A company may by special resolution alter its articles and notify the Registrar.',
+  'The Registrar shall strike off a company that fails to file its annual return.',
+];
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+describe('trainEmbeddingModel', () => {
+  it('trains the same model from the same texts', () => {
+    const first = trainEmbeddingModel(TEXTS, 4);
+    const second = trainEmbeddingModel(TEXTS, 4);
+    expect(second.dimensions).toBe(first.dimensions);
+    expect(second.terms).toEqual(first.terms);
+    expect(second.documents).toEqual(first.documents);
+  });
+
+  it('indexes words found in at least two texts and at most half of them', () => {
+    const terms = trainEmbeddingModel(TEXTS, 4).terms.map(t => t.term);
+    expect(terms).toContain('controller');
+    expect(terms).toContain('company');
+    expect(terms).not.toContain('erasure');
+  });
+
+  it('places texts on the same topic closer together', () => {
+    const { documents } = trainEmbeddingModel(TEXTS, 4);
+    expect(cosine(documents[0], documents[3])).toBeGreaterThan(cosine(documents[0], documents[4]));
+    expect(cosine(documents[4], documents[7])).toBeGreaterThan(cosine(documents[4], documents[1]));
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * get_eu_basis and get_kenyan_implementations count only real references:
+ * GDPR articles the Data Protection Act lacks are gaps, not implementations.
+ * validate_eu_compliance says when its status rests on EU text it cannot read.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { getEUBasis } from '../../src/tools/get-eu-basis.js';
+import { getKenyanImplementations } from '../../src/tools/get-kenyan-implementations.js';
+import { gdprGapReport } from '../../src/tools/gdpr-gap-report.js';
+import { validateEUCompliance } from '../../src/tools/validate-eu-compliance.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dbPath = join(__dirname, '../../data/database.db');
+
+const GDPR_ID = 'regulation:2016/679';
+
+let db: InstanceType<typeof Database>;
+
+beforeAll(() => {
+  db = new Database(dbPath, { readonly: true });
+});
+
+afterAll(() => {
+  db.close();
+});
+
+describe('EU basis of the Data Protection Act', () => {
+  it('reports the GDPR as partially implemented, not pending', async () => {
+    const { results } = await getEUBasis(db, { document_id: 'data-protection-act-2019' });
+    const implementsGdpr = results.find(r => r.eu_document_id === GDPR_ID && r.reference_type === 'implements');
+    expect(implementsGdpr?.implementation_status).toBe('partial');
+  });
+
+  it('does not count the gaps as references', async () => {
+    const report = (await gdprGapReport(db, {})).results!;
+    const mappedArticles = report.articles_compared - report.coverage.absent;
+    const { results } = await getKenyanImplementations(db, { eu_document_id: GDPR_ID });
+    const dpa = results.find(r => r.document_id === 'data-protection-act-2019' && r.reference_type === 'implements');
+    expect(report.coverage.absent).toBeGreaterThan(0);
+    expect(dpa?.implementation_status).toBe('partial');
+    expect(dpa?.reference_count).toBeGreaterThanOrEqual(mappedArticles);
+    expect(results.every(r => r.implementation_status !== 'pending')).toBe(true);
+  });
+});
+
+describe('validate_eu_compliance', () => {
+  it('warns that the EU text of unbundled articles is missing', async () => {
+    const { results } = await validateEUCompliance(db, { document_id: 'data-protection-act-2019' });
+    expect(results.warnings.some(w => w.startsWith('The EU text is missing from this database'))).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * extract_citations against the bundled database: finding citations in free
+ * text, carrying the Act across back-references, and validating each one.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { extractCitations } from '../../src/tools/extract-citations.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dbPath = join(__dirname, '../../data/database.db');
+
+let db: InstanceType<typeof Database>;
+
+beforeAll(() => {
+  db = new Database(dbPath, { readonly: true });
+});
+
+afterAll(() => {
+  db.close();
+});
+
+const MEMO =
+  'Under section 26(b) of the Data Protection Act, 2019 a data subject may access their data. ' +
+  'Section 999 of the Act does not exist. Article 31 of the Constitution protects privacy. ' +
+  'Compare section 26(1)(b) of the Data Protection Act and the Penal Code (Cap. 63).';
+
+describe('extractCitations', () => {
+  it('finds each citation with its offsets and the Act it names', async () => {
+    const { citations } = (await extractCitations(db, { text: MEMO })).results;
+    for (const citation of citations) {
+      expect(MEMO.slice(citation.start, citation.end)).toBe(citation.text);
+    }
+    expect(citations.map(c => [c.text, c.document_id, c.resolved_via, c.outcome])).toEqual([
+      ['section 26(b) of the Data Protection Act, 2019', 'data-protection-act-2019', 'named', 'valid'],
+      ['Section 999 of the Act', 'data-protection-act-2019', 'earlier_mention', 'invalid'],
+      ['Article 31 of the Constitution', 'constitution-of-kenya-2010', 'named', 'valid'],
+      ['section 26(1)(b) of the Data Protection Act', 'data-protection-act-2019', 'named', 'invalid'],
+      ['Cap. 63', null, null, 'unverified'],
+    ]);
+  });
+
+  it('summarises the outcomes', async () => {
+    const { summary } = (await extractCitations(db, { text: MEMO })).results;
+    expect(summary).toEqual({
+      total: 5, valid: 2, invalid: 2, repealed: 0, suspended: 0, not_in_force: 0, unverified: 1,
+    });
+  });
+
+  it('reads bare sections against the default document', async () => {
+    const { citations } = (await extractCitations(db, {
+      text: 'Consent is governed by section 32.',
+      document_id: 'data-protection-act-2019',
+    })).results;
+    expect(citations).toHaveLength(1);
+    expect(citations[0]).toMatchObject({
+      provision_ref: '32',
+      document_id: 'data-protection-act-2019',
+      resolved_via: 'default_document',
+      outcome: 'valid',
+    });
+  });
+
+  it('reads "<preposition> the Act" as a back-reference, not an Act name', async () => {
+    const text = 'Section 25 of the Data Protection Act, 2019 sets out the principles. Under the Act, section 26(1)(b) applies.';
+    const { citations } = (await extractCitations(db, { text })).results;
+    expect(citations.map(c => [c.text, c.document_id, c.resolved_via])).toEqual([
+      ['Section 25 of the Data Protection Act, 2019', 'data-protection-act-2019', 'named'],
+      ['the Act', 'data-protection-act-2019', 'earlier_mention'],
+      ['section 26(1)(b)', 'data-protection-act-2019', 'earlier_mention'],
+    ]);
+  });
+
+  it('leaves a bare "the Act" unverified when no Act came before it', async () => {
+    const { citations } = (await extractCitations(db, { text: 'Under the Act, section 26(1)(b) applies.' })).results;
+    expect(citations.map(c => [c.text, c.document_id, c.outcome])).toEqual([
+      ['the Act', null, 'unverified'],
+      ['section 26(1)(b)', null, 'unverified'],
+    ]);
+  });
+
+  it('never validates a citation whose Act did not resolve', async () => {
+    const { citations } = (await extractCitations(db, {
+      text: 'Section 4 of the Widget Licensing Act applies, as does section 5 of that Act.',
+    })).results;
+    expect(citations).toHaveLength(2);
+    for (const citation of citations) {
+      expect(citation.document_id).toBeNull();
+      expect(citation.outcome).toBe('unverified');
+      expect(citation.validation.valid).toBe(false);
+    }
+  });
+
+  it('expands a range of sections', async () => {
+    const { citations } = (await extractCitations(db, {
+      text: 'See sections 22 to 24 of the Data Protection Act, 2019.',
+    })).results;
+    expect(citations.map(c => c.provision_ref)).toEqual(['22', '23', '24']);
+  });
+
+  it('gives only the endpoints of an implausibly long range', async () => {
+    const { citations } = (await extractCitations(db, {
+      text: 'Sections 1 to 500 of the Data Protection Act, 2019.',
+    })).results;
+    expect(citations.map(c => c.provision_ref)).toEqual(['1', '500']);
+  });
+
+  it('returns nothing for text without citations', async () => {
+    const { citations, summary } = (await extractCitations(db, { text: 'Personal data must be kept secure.' })).results;
+    expect(citations).toEqual([]);
+    expect(summary.total).toBe(0);
+  });
+});
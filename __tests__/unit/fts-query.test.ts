@@ -0,0 +1,73 @@
+/**
+ * FTS5 query parsing: when a query counts as FTS5 syntax, and how it is
+ * validated and rewritten.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hasFtsSyntax, parseFtsQuery, sanitizeFtsInput } from '../../src/utils/fts-query.js';
+
+const COLUMNS = ['content', 'title'];
+
+describe('hasFtsSyntax', () => {
+  it('treats plain words as plain', () => {
+    expect(hasFtsSyntax('data protection consent')).toBe(false);
+  });
+
+  it('detects phrases, operators, prefixes and column filters', () => {
+    expect(hasFtsSyntax('"personal data"')).toBe(true);
+    expect(hasFtsSyntax('consent AND child')).toBe(true);
+    expect(hasFtsSyntax('process*')).toBe(true);
+    expect(hasFtsSyntax('title:consent')).toBe(true);
+    expect(hasFtsSyntax('Content: breach')).toBe(true);
+    expect(hasFtsSyntax('consent -child')).toBe(true);
+    expect(hasFtsSyntax('anti-money laundering')).toBe(false);
+  });
+
+  it('leaves other "word:" text to the plain-words path', () => {
+    expect(hasFtsSyntax('Data Protection Act: consent')).toBe(false);
+    expect(hasFtsSyntax('http://x')).toBe(false);
+    expect(sanitizeFtsInput('Data Protection Act: consent')).toBe('Data Protection Act consent');
+  });
+});
+
+describe('parseFtsQuery', () => {
+  it('rewrites implicit AND and keeps precedence', () => {
+    expect(parseFtsQuery('data protection OR privacy', COLUMNS)).toEqual({ query: 'data AND protection OR privacy' });
+    expect(parseFtsQuery('(a OR b) NOT c', COLUMNS)).toEqual({ query: '(a OR b) NOT c' });
+  });
+
+  it('quotes words FTS5 would split', () => {
+    expect(parseFtsQuery('anti-money AND laundering', COLUMNS)).toEqual({ query: '"anti-money" AND laundering' });
+  });
+
+  it('supports column filters, prefixes and NEAR', () => {
+    expect(parseFtsQuery('title:consent', COLUMNS)).toEqual({ query: 'title:consent' });
+    expect(parseFtsQuery('process* AND "data subject"', COLUMNS)).toEqual({ query: 'process* AND "data subject"' });
+    expect(parseFtsQuery('NEAR(data breach, 5)', COLUMNS)).toEqual({ query: 'NEAR(data breach, 5)' });
+  });
+
+  it('ignores a colon after a word that is not a column', () => {
+    expect(parseFtsQuery('"Data Protection" Act: consent', COLUMNS)).toEqual({ query: '"Data Protection" AND Act AND consent' });
+  });
+
+  it('reads a leading minus as NOT', () => {
+    expect(parseFtsQuery('data -personal', COLUMNS)).toEqual({ query: 'data NOT personal' });
+    expect(parseFtsQuery('data -"personal data"', COLUMNS)).toEqual({ query: 'data NOT "personal data"' });
+    expect(parseFtsQuery('anti-money', COLUMNS)).toEqual({ query: '"anti-money"' });
+    expect(parseFtsQuery('-personal', COLUMNS).error).toEqual({ message: '"-" needs a term before it', position: 0 });
+  });
+
+  it('rejects lower-case near( with its position', () => {
+    expect(parseFtsQuery('data near(a b)', COLUMNS).error).toEqual({
+      message: 'NEAR must be written in capitals, as NEAR(...)',
+      position: 5,
+    });
+  });
+
+  it('reports syntax errors with positions', () => {
+    expect(parseFtsQuery('"unterminated', COLUMNS).error?.position).toBe(0);
+    expect(parseFtsQuery('(a OR b', COLUMNS).error?.message).toBe('Missing closing parenthesis');
+    expect(parseFtsQuery('a AND', COLUMNS).error?.position).toBe(5);
+    expect(parseFtsQuery('NEAR(a)', COLUMNS).error?.message).toBe('NEAR needs at least two terms');
+  });
+});
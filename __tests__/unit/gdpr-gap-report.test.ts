@@ -0,0 +1,78 @@
+/**
+ * gdpr_gap_report coverage counts against the bundled database and the
+ * curated mapping seed it is built from.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { gdprGapReport } from '../../src/tools/gdpr-gap-report.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dbPath = join(__dirname, '../../data/database.db');
+const mappingPath = join(__dirname, '../../data/seed/eu-mappings/data-protection-act-2019-gdpr.json');
+const provisionsPath = join(__dirname, '../../data/seed/eu-provisions/regulation-2016-679.json');
+
+interface MappingSeed {
+  articles: { article: string; provisions: { correspondence: 'equivalent' | 'broader' | 'narrower' }[] }[];
+  beyond: unknown[];
+}
+
+const mapping: MappingSeed = JSON.parse(readFileSync(mappingPath, 'utf-8'));
+const bundledArticles = new Set(
+  (JSON.parse(readFileSync(provisionsPath, 'utf-8')) as { articles: { article: string }[] }).articles.map(a => a.article),
+);
+
+let db: InstanceType<typeof Database>;
+
+beforeAll(() => {
+  db = new Database(dbPath, { readonly: true });
+});
+
+afterAll(() => {
+  db.close();
+});
+
+describe('gdpr_gap_report', () => {
+  it('counts each article once, by its closest Kenyan counterpart', async () => {
+    const expected = { equivalent: 0, broader: 0, narrower: 0, absent: 0 };
+    for (const article of mapping.articles) {
+      const closest = (['equivalent', 'broader', 'narrower'] as const)
+        .find(c => article.provisions.some(p => p.correspondence === c));
+      expected[closest ?? 'absent']++;
+    }
+
+    const report = (await gdprGapReport(db, {})).results!;
+    expect(report.articles_compared).toBe(mapping.articles.length);
+    expect(report.coverage).toEqual(expected);
+  });
+
+  it('lists the absent and partial articles the counts refer to', async () => {
+    const report = (await gdprGapReport(db, {})).results!;
+    expect(report.absent).toHaveLength(report.coverage.absent);
+    expect(report.partial).toHaveLength(report.coverage.narrower);
+    expect(report.absent.every(a => a.provisions.length === 0)).toBe(true);
+    expect(report.beyond_gdpr).toHaveLength(mapping.beyond.length);
+  });
+
+  it('flags the articles whose GDPR text is not bundled', async () => {
+    const response = await gdprGapReport(db, {});
+    const report = response.results!;
+    const compared = [...report.absent, ...report.partial];
+    for (const article of compared) {
+      expect(article.eu_text_available).toBe(bundledArticles.has(article.article));
+    }
+    const missing = mapping.articles.filter(a => !bundledArticles.has(a.article)).length;
+    expect(missing).toBeGreaterThan(0);
+    expect((response._metadata as { note?: string }).note)
+      .toContain(`The GDPR text is missing from this database for ${missing} of the ${mapping.articles.length} articles`);
+  });
+
+  it('returns null with a note for a statute without a curated mapping', async () => {
+    const response = await gdprGapReport(db, { document_id: 'evidence-act' });
+    expect(response.results).toBeNull();
+    expect((response._metadata as { note?: string }).note).toContain('No curated GDPR mapping');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Kenya Law AKN judgment pages: metadata and the judgment body.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseKenyaLawJudgmentHtml } from '../../scripts/lib/parser.js';
+
+const PAGE = `
+<html><body>
+<h1>Republic v Data Commissioner; Ex parte Katiba Institute [2024] KEHC 1234 (KLR)</h1>
+<dl>
+  <dt>Citation</dt><dd>[2024] KEHC 1234 (KLR)</dd>
+  <dt>Judges</dt><dd>A Mrima</dd>
+  <dt>Judgment Date</dt><dd>14 March 2024</dd>
+</dl>
+<div class="akn-judgment">
+  <div class="akn-header"><p>IN THE HIGH COURT OF KENYA AT NAIROBI</p></div>
+  <div class="akn-judgmentBody">
+    <div class="akn-paragraph"><p>1. The petitioner challenges section 31 of the Data Protection Act.</p></div>
+    <div class="akn-paragraph"><p>2. The petition is allowed.</p></div>
+  </div>
+</div>
+<div class="sidebar"><p>Related judgments</p></div>
+<footer><div>Kenya Law footer</div></footer>
+</body></html>
+`;
+
+describe('parseKenyaLawJudgmentHtml', () => {
+  it('reads the citation, court code and date', () => {
+    const judgment = parseKenyaLawJudgmentHtml(PAGE);
+    expect(judgment.case_id).toBe('kehc-2024-1234');
+    expect(judgment.court_code).toBe('KEHC');
+    expect(judgment.decision_date).toBe('2024-03-14');
+    expect(judgment.judges).toEqual(['A Mrima']);
+  });
+
+  it('keeps nested paragraphs and stops at the judgment body', () => {
+    const { full_text } = parseKenyaLawJudgmentHtml(PAGE);
+    expect(full_text).toContain('section 31 of the Data Protection Act');
+    expect(full_text).toContain('The petition is allowed.');
+    expect(full_text).not.toContain('HIGH COURT OF KENYA');
+    expect(full_text).not.toContain('Related judgments');
+    expect(full_text).not.toContain('footer');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Kiswahili provision text: retrieval and search with language "sw", and the
+ * English fallback. No Kiswahili text is bundled, so the tests load a fixture
+ * into a copy of the database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { copyFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { getProvision } from '../../src/tools/get-provision.js';
+import { searchLegislation } from '../../src/tools/search-legislation.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dbPath = join(__dirname, '../../data/database.db');
+
+/** Test fixture, not the published wording. */
+const FIXTURE = {
+  provision_ref: 's31',
+  title: 'Kichwa cha majaribio',
+  content: 'Maandishi ya majaribio kuhusu faragha.',
+};
+
+let tempDir: string;
+let db: InstanceType<typeof Database>;
+
+beforeAll(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'kiswahili-'));
+  const copy = join(tempDir, 'database.db');
+  copyFileSync(dbPath, copy);
+  db = new Database(copy);
+  db.prepare(
+    'INSERT INTO provision_translations (document_id, provision_ref, language, title, content, metadata) VALUES (?, ?, ?, ?, ?, ?)'
+  ).run(
+    'constitution-of-kenya-2010', FIXTURE.provision_ref, 'sw', FIXTURE.title, FIXTURE.content,
+    JSON.stringify({ source_url: 'https://example.test/sw' }),
+  );
+});
+
+afterAll(() => {
+  db.close();
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('language "sw"', () => {
+  it('returns the Kiswahili text of a Constitution article', async () => {
+    const response = await getProvision(db, { document_id: 'constitution-of-kenya-2010', section: '31', language: 'sw' });
+    const [provision] = response.results;
+    expect(provision.language).toBe('sw');
+    expect(provision.title).toBe(FIXTURE.title);
+    expect(provision.content).toBe(FIXTURE.content);
+  });
+
+  it('falls back to English with a note where no Kiswahili text is stored', async () => {
+    const response = await getProvision(db, { document_id: 'constitution-of-kenya-2010', section: '2', language: 'sw' });
+    expect(response.results[0].language).toBe('en');
+    expect((response._metadata as { note?: string }).note).toContain('No Kiswahili text for s2');
+  });
+
+  it('searches the Kiswahili texts', async () => {
+    const response = await searchLegislation(db, { query: 'faragha', language: 'sw' });
+    expect(response.results[0]).toMatchObject({ document_id: 'constitution-of-kenya-2010', provision_ref: 's31', language: 'sw' });
+  });
+});
+
+describe('bundled database', () => {
+  it('carries no Kiswahili text without a source', () => {
+    const bundled = new Database(dbPath, { readonly: true });
+    try {
+      const rows = bundled.prepare('SELECT metadata FROM provision_translations').all() as { metadata: string | null }[];
+      for (const row of rows) {
+        expect(JSON.parse(row.metadata ?? '{}').source_url).toBeTruthy();
+      }
+    } finally {
+      bundled.close();
+    }
+  });
+});
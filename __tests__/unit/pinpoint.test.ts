@@ -0,0 +1,65 @@
+/**
+ * Subsection and paragraph pinpoints: parsing references and walking the
+ * provision tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findPinpoint, formatPinpoint, parsePinpoint, renderPinpoint, type ProvisionNode } from '../../src/utils/pinpoint.js';
+
+const SECTION_26: ProvisionNode = {
+  num: '',
+  text: '',
+  children: [
+    {
+      num: '1',
+      text: 'A data subject has a right to—',
+      children: [
+        { num: 'a', text: 'be informed of the use to which their personal data is to be put;' },
+        { num: 'b', text: 'access their personal data in custody of data controller or data processor;' },
+      ],
+    },
+    { num: '2A', text: 'A data controller shall respond within seven days.' },
+  ],
+};
+
+describe('parsePinpoint', () => {
+  it('splits the section from its bracketed units', () => {
+    expect(parsePinpoint('s26(1)(b)')).toEqual({ base: 's26', path: ['1', 'b'] });
+    expect(parsePinpoint(' 26 (1) (b) ')).toEqual({ base: '26', path: ['1', 'b'] });
+    expect(parsePinpoint('s9A(2)')).toEqual({ base: 's9A', path: ['2'] });
+  });
+
+  it('returns an empty path without bracketed units', () => {
+    expect(parsePinpoint('s26')).toEqual({ base: 's26', path: [] });
+    expect(parsePinpoint('Data Protection Act')).toEqual({ base: 'Data Protection Act', path: [] });
+  });
+
+  it('round-trips through formatPinpoint', () => {
+    expect(formatPinpoint(parsePinpoint('s26(1)(b)').path)).toBe('(1)(b)');
+  });
+});
+
+describe('findPinpoint', () => {
+  it('finds a paragraph with the words that introduce it', () => {
+    const match = findPinpoint(SECTION_26, ['1', 'b']);
+    expect(match?.node.num).toBe('b');
+    expect(match?.lead_in).toBe('(1) A data subject has a right to—');
+  });
+
+  it('matches unit numbers case-insensitively', () => {
+    expect(findPinpoint(SECTION_26, ['2a'])?.node.num).toBe('2A');
+  });
+
+  it('returns null for a unit that does not exist', () => {
+    expect(findPinpoint(SECTION_26, ['1', 'c'])).toBeNull();
+    expect(findPinpoint(SECTION_26, ['3'])).toBeNull();
+  });
+
+  it('renders a subsection with its paragraphs', () => {
+    const match = findPinpoint(SECTION_26, ['1'])!;
+    expect(renderPinpoint(match.node)).toBe(
+      '(1) A data subject has a right to— (a) be informed of the use to which their personal data is to be put; ' +
+      '(b) access their personal data in custody of data controller or data processor;',
+    );
+  });
+});
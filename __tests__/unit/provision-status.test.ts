@@ -0,0 +1,47 @@
+/**
+ * Provision-level status over time: the CMCA sections suspended by court
+ * order in 2018 are suspended only until the petition was dismissed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { getProvisionStatus } from '../../src/utils/provision-status.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dbPath = join(__dirname, '../../data/database.db');
+
+const CMCA = 'computer-misuse-cybercrimes-act-2018';
+
+let db: InstanceType<typeof Database>;
+
+beforeAll(() => {
+  db = new Database(dbPath, { readonly: true });
+});
+
+afterAll(() => {
+  db.close();
+});
+
+describe('getProvisionStatus', () => {
+  it('reports the suspension while the conservatory orders stood', () => {
+    expect(getProvisionStatus(db, CMCA, 's22', '2019-06-01')).toMatchObject({
+      status: 'suspended',
+      authority_type: 'court_order',
+      effective_date: '2018-05-29',
+      end_date: '2020-02-20',
+    });
+  });
+
+  it('reports nothing before the orders or after the petition was dismissed', () => {
+    expect(getProvisionStatus(db, CMCA, 's22', '2018-05-28')).toBeNull();
+    expect(getProvisionStatus(db, CMCA, 's22', '2020-02-20')).toBeNull();
+    expect(getProvisionStatus(db, CMCA, 's22')).toBeNull();
+  });
+
+  it('leaves the Act itself in force', () => {
+    const doc = db.prepare('SELECT status FROM legal_documents WHERE id = ?').get(CMCA) as { status: string };
+    expect(doc.status).toBe('in_force');
+  });
+});
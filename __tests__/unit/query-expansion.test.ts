@@ -0,0 +1,56 @@
+/**
+ * Thesaurus expansion of search queries and the FTS5 variants built from them.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findQueryExpansions } from '../../src/utils/thesaurus.js';
+import { buildFtsQueryVariants } from '../../src/utils/fts-query.js';
+
+describe('findQueryExpansions', () => {
+  it('expands abbreviations whatever their case', () => {
+    const equivalents = ['Office of the Data Protection Commissioner', 'Data Commissioner'];
+    expect(findQueryExpansions('ODPC fines')).toEqual([{ term: 'ODPC', equivalents }]);
+    expect(findQueryExpansions('odpc fines')).toEqual([{ term: 'odpc', equivalents }]);
+  });
+
+  it('prefers the longest matching term', () => {
+    expect(findQueryExpansions('Data Protection Act registration')).toEqual([
+      { term: 'Data Protection Act', equivalents: ['DPA'] },
+    ]);
+    expect(findQueryExpansions('data protection')).toEqual([
+      { term: 'data protection', equivalents: ['ulinzi wa data'] },
+    ]);
+  });
+
+  it('expands spellings and Kiswahili terms left to right', () => {
+    expect(findQueryExpansions('anonymization faragha')).toEqual([
+      { term: 'anonymization', equivalents: ['anonymisation'] },
+      { term: 'faragha', equivalents: ['privacy'] },
+    ]);
+  });
+
+  it('finds nothing in a query without thesaurus terms', () => {
+    expect(findQueryExpansions('breach notification')).toEqual([]);
+  });
+});
+
+describe('buildFtsQueryVariants', () => {
+  it('builds phrase, AND and prefix variants, most specific first', () => {
+    expect(buildFtsQueryVariants('personal data')).toEqual(['"personal data"', 'personal AND data', 'personal AND data*']);
+    expect(buildFtsQueryVariants('consent')).toEqual(['consent', 'consent*']);
+  });
+
+  it('skips the prefix variant for a short single term', () => {
+    expect(buildFtsQueryVariants('ab')).toEqual(['ab']);
+    expect(buildFtsQueryVariants('  ')).toEqual([]);
+  });
+
+  it('ORs expanded terms with their equivalents in the AND variant', () => {
+    const query = 'ODPC fines';
+    expect(buildFtsQueryVariants(query, findQueryExpansions(query))).toEqual([
+      '"ODPC fines"',
+      '("ODPC" OR "Office of the Data Protection Commissioner" OR "Data Commissioner") AND fines',
+      'ODPC AND fines*',
+    ]);
+  });
+});
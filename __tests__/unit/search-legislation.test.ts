@@ -0,0 +1,54 @@
+/**
+ * search_legislation paging against the bundled database: stemmed matches top
+ * up the first page without changing the exact-match total.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { searchLegislation } from '../../src/tools/search-legislation.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dbPath = join(__dirname, '../../data/database.db');
+
+interface Pagination {
+  offset: number;
+  limit: number;
+  total: number;
+  next_offset: number | null;
+  stemmed_matches: number;
+}
+
+const paginationOf = (response: Awaited<ReturnType<typeof searchLegislation>>): Pagination =>
+  (response._metadata as { pagination?: Pagination }).pagination!;
+
+let db: InstanceType<typeof Database>;
+
+beforeAll(() => {
+  db = new Database(dbPath, { readonly: true });
+});
+
+afterAll(() => {
+  db.close();
+});
+
+describe('search_legislation pagination', () => {
+  it('reports stemmed matches apart from the exact-match total', async () => {
+    const response = await searchLegislation(db, { query: 'processing', limit: 50 });
+    const pagination = paginationOf(response);
+    expect(pagination.stemmed_matches).toBeGreaterThan(0);
+    expect(response.results.length).toBe(pagination.total + pagination.stemmed_matches);
+    expect(pagination.next_offset).toBeNull();
+  });
+
+  it('pages through exact matches with next_offset', async () => {
+    const first = await searchLegislation(db, { query: 'processing', limit: 10 });
+    const pagination = paginationOf(first);
+    expect(pagination.stemmed_matches).toBe(0);
+    expect(pagination.next_offset).toBe(10);
+
+    const second = await searchLegislation(db, { query: 'processing', limit: 10, offset: 10 });
+    expect(paginationOf(second).total).toBe(pagination.total);
+  });
+});
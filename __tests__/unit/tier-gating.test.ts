@@ -0,0 +1,60 @@
+/**
+ * Tools that need a professional-tier dataset return the upgrade notice on the
+ * bundled free-tier database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { registerTools } from '../../src/tools/registry.js';
+import { getProvision } from '../../src/tools/get-provision.js';
+import { upgradeMessage } from '../../src/capabilities.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dbPath = join(__dirname, '../../data/database.db');
+
+type CallTool = (request: { params: { name: string; arguments?: Record<string, unknown> } }) =>
+  Promise<{ content: { type: string; text: string }[] }>;
+
+let db: InstanceType<typeof Database>;
+let callTool: CallTool;
+
+beforeAll(() => {
+  db = new Database(dbPath, { readonly: true });
+  const handlers = new Map<unknown, unknown>();
+  const server = { setRequestHandler: (schema: unknown, handler: unknown) => handlers.set(schema, handler) };
+  registerTools(server as unknown as Server, db);
+  callTool = handlers.get(CallToolRequestSchema) as CallTool;
+});
+
+afterAll(() => {
+  db.close();
+});
+
+describe('free-tier gating', () => {
+  it.each([
+    ['search_case_law', { query: 'privacy' }],
+    ['get_case', { citation: '[2020] KEHC 1 (KLR)' }],
+    ['get_provision_case_law', { document_id: 'data-protection-act-2019', provision_ref: 's26' }],
+    ['get_preparatory_works', { document_id: 'data-protection-act-2019' }],
+  ])('%s returns the upgrade notice', async (name, args) => {
+    const response = await callTool({ params: { name, arguments: args } });
+    expect(response.content[0].text).toBe(upgradeMessage(name));
+  });
+
+  it('notes that include_case_law needs the professional tier', async () => {
+    const response = await getProvision(db, {
+      document_id: 'data-protection-act-2019', section: '26', include_case_law: true,
+    });
+    expect(response.results[0].content).toContain('data subject');
+    expect((response._metadata as { note?: string }).note).toBe(upgradeMessage('include_case_law'));
+  });
+
+  it('serves the statute tools', async () => {
+    const response = await callTool({ params: { name: 'search_gazette', arguments: { query: 'commencement' } } });
+    expect(response.content[0].text).not.toBe(upgradeMessage('search_gazette'));
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Word-level diffs between two wordings of a provision.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffWords, summarizeDiff } from '../../src/utils/word-diff.js';
+
+describe('diffWords', () => {
+  it('treats reflowed text as unchanged', () => {
+    expect(diffWords('The Data  Commissioner\nmay', ' The Data Commissioner may ')).toEqual([
+      { type: 'equal', text: 'The Data Commissioner may' },
+    ]);
+  });
+
+  it('reports a substitution as a deletion then an insertion', () => {
+    expect(diffWords(
+      'The Cabinet Secretary may make regulations',
+      'The Cabinet Secretary shall make regulations',
+    )).toEqual([
+      { type: 'equal', text: 'The Cabinet Secretary' },
+      { type: 'delete', text: 'may' },
+      { type: 'insert', text: 'shall' },
+      { type: 'equal', text: 'make regulations' },
+    ]);
+  });
+
+  it('finds insertions and deletions in separate places', () => {
+    expect(diffWords(
+      'a fine not exceeding five million shillings or imprisonment',
+      'a fine not exceeding ten million shillings or to imprisonment',
+    )).toEqual([
+      { type: 'equal', text: 'a fine not exceeding' },
+      { type: 'delete', text: 'five' },
+      { type: 'insert', text: 'ten' },
+      { type: 'equal', text: 'million shillings or' },
+      { type: 'insert', text: 'to' },
+      { type: 'equal', text: 'imprisonment' },
+    ]);
+  });
+
+  it('handles an empty wording', () => {
+    expect(diffWords('', 'Repealed.')).toEqual([{ type: 'insert', text: 'Repealed.' }]);
+    expect(diffWords('Spent.', '')).toEqual([{ type: 'delete', text: 'Spent.' }]);
+  });
+});
+
+describe('summarizeDiff', () => {
+  it('counts words and changed spans', () => {
+    const spans = diffWords(
+      'a fine not exceeding five million shillings or imprisonment',
+      'a fine not exceeding ten million shillings or to imprisonment',
+    );
+    expect(summarizeDiff(spans)).toEqual({
+      inserted_words: 2,
+      deleted_words: 1,
+      unchanged_words: 8,
+      changed_spans: 3,
+    });
+  });
+
+  it('is all zeros for no spans', () => {
+    expect(summarizeDiff([])).toEqual({ inserted_words: 0, deleted_words: 0, unchanged_words: 0, changed_spans: 0 });
+  });
+});
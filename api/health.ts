@@ -94,7 +94,7 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
 
       counts = {
         documents: safeCount(db, 'SELECT COUNT(*) as count FROM legal_documents'),
-        provisions: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions'),
+        provisions: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions WHERE valid_to IS NULL'),
       };
     } finally {
       db.close();
@@ -5,24 +5,47 @@
  * Builds the SQLite database from seed JSON files in data/seed/.
  * Follows the Switzerland Law MCP reference pattern.
  *
- * Usage: npm run build:db
+ * Usage:
+ *   npm run build:db              # Rebuild, keeping wordings from the previous database as history
+ *   npm run build:db -- --fresh   # Rebuild from seeds only
  */
 
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { splitProvisionText, toTitleCase, type ProvisionNode } from './lib/parser.js';
+import { encodeVector } from '../src/utils/embeddings.js';
+import { trainEmbeddingModel } from './lib/embeddings.js';
+import {
+  extractCrossReferences,
+  extractJudicialTreatments,
+  normalizeActTitle,
+  type ActTitleIndex,
+  type JudicialTreatment,
+} from './lib/cross-references.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
+const CASE_LAW_SEED_DIR = path.join(SEED_DIR, 'case-law');
+const PREPARATORY_WORKS_SEED_DIR = path.join(SEED_DIR, 'preparatory-works');
+const GAZETTE_SEED_DIR = path.join(SEED_DIR, 'gazette');
+const EU_INSTRUMENT_SEED_DIR = path.join(SEED_DIR, 'eu-instruments');
+const EU_MAPPING_SEED_DIR = path.join(SEED_DIR, 'eu-mappings');
+const EU_PROVISION_SEED_DIR = path.join(SEED_DIR, 'eu-provisions');
+const INTERNATIONAL_INSTRUMENT_SEED_DIR = path.join(SEED_DIR, 'international-instruments');
+const INTERNATIONAL_MAPPING_SEED_DIR = path.join(SEED_DIR, 'international-mappings');
 const DB_PATH = path.resolve(__dirname, '../data/database.db');
 
+/** Width of the semantic search vectors (see scripts/lib/embeddings.ts). */
+const EMBEDDING_DIMENSIONS = 64;
+
 // Seed file types
 interface DocumentSeed {
   id: string;
-  type: 'statute';
+  type: 'statute' | 'subsidiary_legislation';
   title: string;
   title_en?: string;
   short_name?: string;
@@ -33,6 +56,19 @@ interface DocumentSeed {
   description?: string;
   provisions?: ProvisionSeed[];
   definitions?: DefinitionSeed[];
+  /** Sections whose status differs from the Act as a whole. */
+  provision_status?: ProvisionStatusSeed[];
+  /** Instruments bringing the Act into force, for Acts commenced in stages. */
+  commencements?: CommencementSeed[];
+  /** Curated amendment events; others are extracted from the annotations in provision text. */
+  amendments?: AmendmentSeed[];
+  /** Provision text in other languages, keyed to the English provision_ref. */
+  translations?: Partial<Record<'sw', TranslationSeed>>;
+  /** Subsidiary legislation: the Act it was made under. */
+  parent_document_id?: string;
+  /** Subsidiary legislation: enabling provisions of the parent Act. */
+  enabling_provisions?: string[];
+  legal_notice?: string;
 }
 
 interface ProvisionSeed {
@@ -42,6 +78,60 @@ interface ProvisionSeed {
   title?: string;
   content: string;
   metadata?: Record<string, unknown>;
+  /** Date the current wording took effect (defaults to the Act's in_force_date). */
+  valid_from?: string;
+  /** Superseded wordings of this provision, oldest first. */
+  versions?: ProvisionVersionSeed[];
+  /** Subsection/paragraph tree from the AKN markup; derived from content when absent. */
+  structure?: ProvisionNode;
+}
+
+interface ProvisionVersionSeed {
+  title?: string;
+  content: string;
+  valid_from?: string;
+  valid_to: string;
+}
+
+interface ProvisionStatusSeed {
+  provision_refs: string[];
+  status: 'suspended' | 'repealed' | 'not_commenced' | 'spent';
+  authority_type: 'court_order' | 'legal_notice' | 'statute';
+  /** Court order or Legal Notice that produced the status. */
+  authority: string;
+  effective_date?: string;
+  end_date?: string;
+  note?: string;
+}
+
+interface CommencementSeed {
+  /** Provision refs or ranges ("s1-s10"); omitted for the whole Act, or every provision not listed elsewhere. */
+  provisions?: string[];
+  commencement_date: string;
+  /** e.g. "Legal Notice No. 12 of 2020"; omitted when the Act commenced on its own terms. */
+  legal_notice?: string;
+  note?: string;
+}
+
+type AmendmentChangeType = 'amended' | 'inserted' | 'substituted' | 'deleted' | 'repealed';
+
+interface AmendmentSeed {
+  /** Provisions amended; omitted for amendments to the Act as a whole. */
+  provision_refs?: string[];
+  /** As cited in Kenya Law annotations (e.g. "Act No. 18 of 2018"), so it merges with extracted events. */
+  amending_instrument: string;
+  /** e.g. "Statute Law (Miscellaneous Amendments) Act, 2018" */
+  amending_title?: string;
+  amending_provision?: string;
+  date?: string;
+  change_type: AmendmentChangeType;
+  note?: string;
+}
+
+interface TranslationSeed {
+  /** Page the text was published on; texts without one are not loaded. */
+  source_url?: string;
+  provisions: { provision_ref: string; title?: string; content: string }[];
 }
 
 interface DefinitionSeed {
@@ -66,12 +156,175 @@ interface ExtractedEUReference {
   referenceType: EUReferenceType;
 }
 
+interface CaseLawSeed {
+  case_id: string;
+  neutral_citation?: string;
+  case_number?: string;
+  title: string;
+  parties?: string[];
+  court: string;
+  court_code?: string;
+  decision_date?: string;
+  judges?: string[];
+  summary?: string;
+  full_text: string;
+  url?: string;
+  /** Curated provision treatments; merged with those extracted from full_text. */
+  treatments?: JudicialTreatmentSeed[];
+}
+
+interface JudicialTreatmentSeed {
+  document_id: string;
+  provision_ref: string;
+  treatment: JudicialTreatment;
+  context?: string;
+}
+
+type PreparatoryWorkType = 'bill' | 'memorandum' | 'hansard' | 'committee_report';
+
+interface BillSeed {
+  id: string;
+  title: string;
+  /** e.g. "National Assembly Bills No. 44 of 2019" */
+  bill_number?: string;
+  house?: 'National Assembly' | 'Senate';
+  /** Kenya Gazette Supplement in which the Bill was published. */
+  gazette_supplement?: string;
+  published_date?: string;
+  url?: string;
+  /** Long title ("An Act of Parliament to ..."). */
+  description?: string;
+  /** Document ID of the Act the Bill became, if enacted. */
+  enacted_as?: string;
+  content?: string;
+  memorandum?: { text: string; date?: string };
+  /** Hansard debates and committee reports on the Bill. */
+  documents?: PreparatoryDocumentSeed[];
+}
+
+interface PreparatoryDocumentSeed {
+  type: Exclude<PreparatoryWorkType, 'bill' | 'memorandum'>;
+  title: string;
+  date?: string;
+  summary?: string;
+  full_text?: string;
+  url?: string;
+}
+
+interface GazetteIssueSeed {
+  volume?: string;
+  issue_number?: string;
+  issue_date?: string;
+  url?: string;
+  notices: GazetteNoticeSeed[];
+}
+
+interface GazetteNoticeSeed {
+  notice_number: string;
+  notice_type: 'commencement' | 'appointment' | 'other';
+  title: string;
+  body: string;
+  signed_date?: string;
+  /** Curated link to the Act the notice is made under; extracted from the text otherwise. */
+  document_id?: string;
+}
+
+/** Bundled EUR-Lex metadata; extracted references to these instruments pick it up. */
+interface EUInstrumentCatalogueSeed {
+  instruments: {
+    /** "directive:1995/46" — the ids extractEuReferences produces. */
+    id: string;
+    type: EUDocumentType;
+    year: number;
+    number: number;
+    community: EUCommunity;
+    celex_number: string;
+    title: string;
+    short_name?: string;
+    adoption_date: string;
+    entry_into_force_date?: string;
+    in_force: boolean;
+    repealed_by?: string;
+    amended_by?: string;
+    description?: string;
+  }[];
+}
+
+/** Article text of a catalogued EU instrument, as published in the Official Journal. */
+interface EUProvisionSeed {
+  eu_document_id: string;
+  articles: { article: string; title: string; content: string }[];
+}
+
+type EUCorrespondence = 'equivalent' | 'narrower' | 'broader';
+
+/** Curated article-by-article comparison of a Kenyan Act with an EU instrument. */
+interface EUMappingSeed {
+  document_id: string;
+  /** Must be in the instrument catalogue. */
+  eu_document_id: string;
+  /** Every article compared; an empty provisions list records that the Act has no counterpart. */
+  articles: {
+    article: string;
+    title: string;
+    provisions: { provision_ref: string; correspondence: EUCorrespondence; note?: string }[];
+    note?: string;
+  }[];
+  /** Sections with no counterpart in the EU instrument. */
+  beyond?: { provision_ref: string; note?: string }[];
+}
+
+type InternationalInstrumentType = 'treaty' | 'convention' | 'recommendation' | 'model_law' | 'regional_protocol';
+
+interface InternationalInstrumentCatalogueSeed {
+  instruments: {
+    id: string;
+    instrument_type: InternationalInstrumentType;
+    title: string;
+    short_name?: string;
+    /** Council of Europe, African Union, FATF, East African Community, ... */
+    organisation: string;
+    adopted_date?: string;
+    entry_into_force_date?: string;
+    kenya_status?: 'party' | 'signatory' | 'member' | 'not_party';
+    /** Names statutes use for the instrument; matched to extract references from provision text. */
+    aliases?: string[];
+    description?: string;
+  }[];
+}
+
+/** Curated links from a Kenyan Act to the articles or recommendations it gives effect to. */
+interface InternationalMappingSeed {
+  document_id: string;
+  instruments: {
+    instrument_id: string;
+    /** Article or recommendation number for each section; none links the Act as a whole. */
+    provisions: { provision_ref: string; article?: string; note?: string }[];
+    note?: string;
+  }[];
+}
+
+interface ExtractedInternationalReference {
+  instrumentId: string;
+  article: string | null;
+  referenceType: 'implements' | 'references';
+  context: string;
+}
+
+
+interface ExtractedAmendment {
+  instrument: string;
+  year: string;
+  amendingProvision: string | null;
+  changeType: AmendmentChangeType;
+}
+
 // Database schema
 const SCHEMA = `
 -- Legal documents (statutes)
 CREATE TABLE legal_documents (
   id TEXT PRIMARY KEY,
-  type TEXT NOT NULL CHECK(type IN ('statute', 'bill', 'case_law')),
+  type TEXT NOT NULL CHECK(type IN ('statute', 'subsidiary_legislation', 'bill', 'case_law')),
   title TEXT NOT NULL,
   title_en TEXT,
   short_name TEXT,
@@ -94,11 +347,15 @@ CREATE TABLE legal_provisions (
   title TEXT,
   content TEXT NOT NULL,
   metadata TEXT,
-  UNIQUE(document_id, provision_ref)
+  valid_from TEXT,
+  valid_to TEXT
 );
 
+-- One version per start date; a plain UNIQUE would let several NULL valid_from rows through
+CREATE UNIQUE INDEX idx_provisions_version ON legal_provisions(document_id, provision_ref, COALESCE(valid_from, ''));
 CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
 CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
+CREATE INDEX idx_provisions_validity ON legal_provisions(document_id, provision_ref, valid_to);
 
 -- FTS5 for provision search
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
@@ -108,14 +365,26 @@ CREATE VIRTUAL TABLE provisions_fts USING fts5(
   tokenize='unicode61'
 );
 
+-- Porter-stemmed index over the same rows ("processed" matches "processing")
+CREATE VIRTUAL TABLE provisions_stem_fts USING fts5(
+  content, title,
+  content='legal_provisions',
+  content_rowid='id',
+  tokenize='porter unicode61'
+);
+
 CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
   INSERT INTO provisions_fts(rowid, content, title)
   VALUES (new.id, new.content, new.title);
+  INSERT INTO provisions_stem_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
 END;
 
 CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
   INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
   VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provisions_stem_fts(provisions_stem_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
 END;
 
 CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
@@ -123,8 +392,125 @@ CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
   VALUES ('delete', old.id, old.content, old.title);
   INSERT INTO provisions_fts(rowid, content, title)
   VALUES (new.id, new.content, new.title);
+  INSERT INTO provisions_stem_fts(provisions_stem_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provisions_stem_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+END;
+
+-- Provision text in other languages (currently Kiswahili), for the current wording
+CREATE TABLE provision_translations (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  language TEXT NOT NULL CHECK(language IN ('sw')),
+  title TEXT,
+  content TEXT NOT NULL,
+  metadata TEXT,
+  UNIQUE(document_id, provision_ref, language)
+);
+
+CREATE VIRTUAL TABLE provision_translations_fts USING fts5(
+  content, title,
+  content='provision_translations',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER provision_translations_ai AFTER INSERT ON provision_translations BEGIN
+  INSERT INTO provision_translations_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+END;
+
+CREATE TRIGGER provision_translations_ad AFTER DELETE ON provision_translations BEGIN
+  INSERT INTO provision_translations_fts(provision_translations_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
 END;
 
+CREATE TRIGGER provision_translations_au AFTER UPDATE ON provision_translations BEGIN
+  INSERT INTO provision_translations_fts(provision_translations_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provision_translations_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+END;
+
+-- Embedding model for semantic search (latent semantic analysis, trained at build time)
+CREATE TABLE embedding_terms (
+  term TEXT PRIMARY KEY,
+  idf REAL NOT NULL,
+  vector BLOB NOT NULL
+);
+
+-- Vector of each current provision (Float32, embedding_dimensions long)
+CREATE TABLE provision_embeddings (
+  provision_id INTEGER PRIMARY KEY REFERENCES legal_provisions(id),
+  vector BLOB NOT NULL
+);
+
+-- Provision-level status (suspension, repeal, commencement) with its authority
+CREATE TABLE provision_status (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('suspended', 'repealed', 'not_commenced', 'spent')),
+  authority_type TEXT NOT NULL CHECK(authority_type IN ('court_order', 'legal_notice', 'statute')),
+  authority TEXT NOT NULL,
+  effective_date TEXT,
+  end_date TEXT,
+  note TEXT
+);
+
+CREATE INDEX idx_provision_status ON provision_status(document_id, provision_ref);
+
+-- Commencement of Acts brought into force in stages, one row per provision.
+-- A NULL provision_ref covers the whole Act, or every provision without its own row.
+CREATE TABLE commencements (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT,
+  provisions TEXT,
+  commencement_date TEXT NOT NULL,
+  legal_notice TEXT,
+  note TEXT
+);
+
+CREATE INDEX idx_commencements ON commencements(document_id, provision_ref);
+
+-- Regulations, rules and orders linked to the Act and section they were made under
+CREATE TABLE subsidiary_legislation (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  parent_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  enabling_provision_ref TEXT,
+  legal_notice TEXT,
+  UNIQUE(document_id, parent_document_id, enabling_provision_ref)
+);
+
+CREATE INDEX idx_subsidiary_parent ON subsidiary_legislation(parent_document_id, enabling_provision_ref);
+
+-- Amendment events: which instrument changed which provision, and how.
+-- 'annotation' rows come from the "[Act No. 18 of 2018, Sch.]" notes in the
+-- consolidated text and carry only the year; 'curated' rows come from seeds.
+CREATE TABLE amendments (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT,
+  amending_instrument TEXT NOT NULL,
+  amending_title TEXT,
+  amending_document_id TEXT REFERENCES legal_documents(id),
+  amending_provision TEXT,
+  amendment_date TEXT,
+  year TEXT,
+  change_type TEXT NOT NULL DEFAULT 'amended'
+    CHECK(change_type IN ('amended', 'inserted', 'substituted', 'deleted', 'repealed')),
+  source TEXT NOT NULL CHECK(source IN ('annotation', 'curated')),
+  note TEXT,
+  UNIQUE(document_id, provision_ref, amending_instrument, amending_provision)
+);
+
+CREATE INDEX idx_amendments_target ON amendments(document_id, provision_ref);
+CREATE INDEX idx_amendments_instrument ON amendments(amending_document_id);
+
 -- Cross-references between provisions/documents
 CREATE TABLE cross_references (
   id INTEGER PRIMARY KEY,
@@ -138,6 +524,8 @@ CREATE TABLE cross_references (
 
 CREATE INDEX idx_xref_source ON cross_references(source_document_id);
 CREATE INDEX idx_xref_target ON cross_references(target_document_id);
+CREATE INDEX idx_xref_source_provision ON cross_references(source_document_id, source_provision_ref);
+CREATE INDEX idx_xref_target_provision ON cross_references(target_document_id, target_provision_ref);
 
 -- Legal term definitions
 CREATE TABLE definitions (
@@ -190,6 +578,7 @@ CREATE TABLE eu_documents (
   entry_into_force_date TEXT,
   in_force BOOLEAN DEFAULT 1,
   amended_by TEXT,
+  repealed_by TEXT,
   repeals TEXT,
   url_eur_lex TEXT,
   description TEXT,
@@ -215,6 +604,8 @@ CREATE TABLE eu_references (
   full_citation TEXT,
   is_primary_implementation BOOLEAN DEFAULT 0,
   implementation_status TEXT CHECK (implementation_status IN ('complete', 'partial', 'pending', 'unknown')),
+  -- Curated mappings: how the Kenyan provision compares with the article
+  correspondence TEXT CHECK (correspondence IN ('equivalent', 'narrower', 'broader')),
   created_at TEXT DEFAULT CURRENT_TIMESTAMP,
   last_verified TEXT,
   UNIQUE(source_id, eu_document_id, eu_article)
@@ -224,6 +615,59 @@ CREATE INDEX idx_eu_references_document ON eu_references(document_id, eu_documen
 CREATE INDEX idx_eu_references_eu_document ON eu_references(eu_document_id, document_id);
 CREATE INDEX idx_eu_references_provision ON eu_references(provision_id, eu_document_id);
 
+-- Curated mappings: EU articles a statute has no counterpart for. Kept apart
+-- from eu_references so gaps never count as references or implementations.
+CREATE TABLE eu_gaps (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  eu_document_id TEXT NOT NULL REFERENCES eu_documents(id),
+  eu_article TEXT NOT NULL,
+  full_citation TEXT,
+  note TEXT,
+  UNIQUE(document_id, eu_document_id, eu_article)
+);
+
+-- EU article text, for reading mapped articles beside the Kenyan provision
+CREATE TABLE eu_provisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  eu_document_id TEXT NOT NULL REFERENCES eu_documents(id),
+  article TEXT NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  UNIQUE(eu_document_id, article)
+);
+
+-- Treaties, conventions, recommendations, model laws and regional protocols outside EU law
+CREATE TABLE international_instruments (
+  id TEXT PRIMARY KEY,
+  instrument_type TEXT NOT NULL CHECK (instrument_type IN (
+    'treaty', 'convention', 'recommendation', 'model_law', 'regional_protocol'
+  )),
+  title TEXT NOT NULL,
+  short_name TEXT,
+  organisation TEXT NOT NULL,
+  adopted_date TEXT,
+  entry_into_force_date TEXT,
+  kenya_status TEXT CHECK (kenya_status IN ('party', 'signatory', 'member', 'not_party')),
+  description TEXT
+);
+
+-- Kenyan provisions (or whole Acts, when provision_id is NULL) linked to instrument articles
+CREATE TABLE international_references (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_id INTEGER REFERENCES legal_provisions(id),
+  instrument_id TEXT NOT NULL REFERENCES international_instruments(id),
+  instrument_article TEXT,
+  reference_type TEXT NOT NULL CHECK (reference_type IN ('implements', 'references')),
+  source TEXT NOT NULL CHECK (source IN ('curated', 'extracted')),
+  reference_context TEXT,
+  UNIQUE(document_id, provision_id, instrument_id, instrument_article)
+);
+
+CREATE INDEX idx_international_references_document ON international_references(document_id, instrument_id);
+CREATE INDEX idx_international_references_instrument ON international_references(instrument_id, document_id);
+
 -- Build metadata
 CREATE TABLE db_metadata (
   key TEXT PRIMARY KEY,
@@ -231,10 +675,232 @@ CREATE TABLE db_metadata (
 );
 `;
 
+// Case law schema — only created when judgment seeds are present, so the
+// case_law capability is absent from builds without them.
+const CASE_LAW_SCHEMA = `
+CREATE TABLE case_law (
+  id INTEGER PRIMARY KEY,
+  case_id TEXT NOT NULL UNIQUE,
+  neutral_citation TEXT UNIQUE,
+  case_number TEXT,
+  title TEXT NOT NULL,
+  parties TEXT,
+  court TEXT NOT NULL,
+  court_code TEXT,
+  decision_date TEXT,
+  judges TEXT,
+  summary TEXT,
+  full_text TEXT NOT NULL,
+  url TEXT,
+  last_updated TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_case_law_court_date ON case_law(court_code, decision_date DESC);
+
+-- Provisions considered in judgments, with how the court treated them
+CREATE TABLE case_law_provisions (
+  id INTEGER PRIMARY KEY,
+  case_id TEXT NOT NULL REFERENCES case_law(case_id),
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  treatment TEXT NOT NULL DEFAULT 'cited'
+    CHECK(treatment IN ('interpreted', 'declared_unconstitutional', 'suspended', 'applied', 'cited')),
+  context TEXT,
+  UNIQUE(case_id, document_id, provision_ref, treatment)
+);
+
+CREATE INDEX idx_case_law_provisions_target ON case_law_provisions(document_id, provision_ref);
+
+CREATE VIRTUAL TABLE case_law_fts USING fts5(
+  title, summary, full_text,
+  content='case_law',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER case_law_ai AFTER INSERT ON case_law BEGIN
+  INSERT INTO case_law_fts(rowid, title, summary, full_text)
+  VALUES (new.id, new.title, new.summary, new.full_text);
+END;
+
+CREATE TRIGGER case_law_ad AFTER DELETE ON case_law BEGIN
+  INSERT INTO case_law_fts(case_law_fts, rowid, title, summary, full_text)
+  VALUES ('delete', old.id, old.title, old.summary, old.full_text);
+END;
+
+CREATE TRIGGER case_law_au AFTER UPDATE ON case_law BEGIN
+  INSERT INTO case_law_fts(case_law_fts, rowid, title, summary, full_text)
+  VALUES ('delete', old.id, old.title, old.summary, old.full_text);
+  INSERT INTO case_law_fts(rowid, title, summary, full_text)
+  VALUES (new.id, new.title, new.summary, new.full_text);
+END;
+`;
+
+const PREPARATORY_WORKS_SCHEMA = `
+-- Legislative history: Bills (stored in legal_documents with type 'bill'),
+-- their Memorandum of Objects and Reasons, Hansard and committee reports
+CREATE TABLE preparatory_works (
+  id INTEGER PRIMARY KEY,
+  statute_id TEXT REFERENCES legal_documents(id),
+  prep_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  work_type TEXT NOT NULL CHECK(work_type IN ('bill', 'memorandum', 'hansard', 'committee_report')),
+  title TEXT NOT NULL,
+  date TEXT,
+  summary TEXT,
+  full_text TEXT,
+  url TEXT
+);
+
+CREATE INDEX idx_prep_statute ON preparatory_works(statute_id);
+CREATE INDEX idx_prep_document ON preparatory_works(prep_document_id);
+`;
+
+// Kenya Gazette schema — always created; search_gazette is available on every tier
+const GAZETTE_SCHEMA = `
+CREATE TABLE gazette_notices (
+  id INTEGER PRIMARY KEY,
+  notice_id TEXT NOT NULL UNIQUE,
+  volume TEXT,
+  issue_number TEXT,
+  issue_date TEXT,
+  notice_number TEXT NOT NULL,
+  notice_type TEXT NOT NULL DEFAULT 'other' CHECK(notice_type IN ('commencement', 'appointment', 'other')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  signed_date TEXT,
+  document_id TEXT REFERENCES legal_documents(id),
+  url TEXT
+);
+
+CREATE INDEX idx_gazette_document ON gazette_notices(document_id, issue_date);
+CREATE INDEX idx_gazette_type_date ON gazette_notices(notice_type, issue_date);
+
+CREATE VIRTUAL TABLE gazette_notices_fts USING fts5(
+  title, body,
+  content='gazette_notices',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER gazette_notices_ai AFTER INSERT ON gazette_notices BEGIN
+  INSERT INTO gazette_notices_fts(rowid, title, body)
+  VALUES (new.id, new.title, new.body);
+END;
+
+CREATE TRIGGER gazette_notices_ad AFTER DELETE ON gazette_notices BEGIN
+  INSERT INTO gazette_notices_fts(gazette_notices_fts, rowid, title, body)
+  VALUES ('delete', old.id, old.title, old.body);
+END;
+
+CREATE TRIGGER gazette_notices_au AFTER UPDATE ON gazette_notices BEGIN
+  INSERT INTO gazette_notices_fts(gazette_notices_fts, rowid, title, body)
+  VALUES ('delete', old.id, old.title, old.body);
+  INSERT INTO gazette_notices_fts(rowid, title, body)
+  VALUES (new.id, new.title, new.body);
+END;
+`;
+
+/**
+ * Expand commencement ranges ("s1-s10", "s25") to provision refs, in the
+ * order the provisions appear in the Act.
+ */
+function expandProvisionRanges(ranges: string[], orderedRefs: string[]): { refs: string[]; unknown: string[] } {
+  const refs: string[] = [];
+  const unknown: string[] = [];
+  for (const range of ranges) {
+    const [from, to] = range.split(/\s*[-–]\s*/);
+    const start = orderedRefs.indexOf(from);
+    const end = to ? orderedRefs.indexOf(to) : start;
+    if (start < 0 || end < start) {
+      unknown.push(range);
+      continue;
+    }
+    refs.push(...orderedRefs.slice(start, end + 1));
+  }
+  return { refs, unknown };
+}
+
+interface PreviousWording {
+  title: string | null;
+  content: string;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+/**
+ * Read every wording (current and historical) from the database about to be
+ * replaced, keyed by "document_id:provision_ref", so a rebuild from changed
+ * seeds does not lose what a provision used to say.
+ */
+function readPreviousWordings(dbPath: string): Map<string, PreviousWording[]> {
+  const wordings = new Map<string, PreviousWording[]>();
+  if (!fs.existsSync(dbPath)) return wordings;
+
+  try {
+    const previous = new Database(dbPath, { readonly: true, fileMustExist: true });
+    const rows = previous.prepare(
+      'SELECT document_id, provision_ref, title, content, valid_from, valid_to FROM legal_provisions ORDER BY id'
+    ).all() as (PreviousWording & { document_id: string; provision_ref: string })[];
+    previous.close();
+
+    for (const { document_id, provision_ref, ...wording } of rows) {
+      const key = `${document_id}:${provision_ref}`;
+      wordings.set(key, [...(wordings.get(key) ?? []), wording]);
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.log(`  WARNING: could not read previous database, history not carried over: ${msg}`);
+  }
+  return wordings;
+}
+
+/**
+ * Add wordings from the previous database that the seed no longer carries as
+ * versions of a provision. A replaced current wording is closed on the day of
+ * the rebuild, as ingest does when it observes a change; wordings that only
+ * existed for part of that day are not kept.
+ */
+function mergePreviousWordings(prov: ProvisionSeed, previous: PreviousWording[], observedOn: string): number {
+  const known = new Set([prov.content, ...(prov.versions ?? []).map(v => v.content)].map(normalizeWhitespace));
+  const carried: ProvisionVersionSeed[] = [];
+
+  for (const wording of previous) {
+    if (known.has(normalizeWhitespace(wording.content))) continue;
+    known.add(normalizeWhitespace(wording.content));
+
+    if (wording.valid_to) {
+      carried.push({ title: wording.title ?? undefined, content: wording.content, valid_from: wording.valid_from ?? undefined, valid_to: wording.valid_to });
+      continue;
+    }
+    if (wording.valid_from === observedOn) continue;
+    carried.push({ title: wording.title ?? undefined, content: wording.content, valid_from: wording.valid_from ?? undefined, valid_to: observedOn });
+    if (!prov.valid_from || (wording.valid_from && prov.valid_from <= wording.valid_from)) {
+      prov.valid_from = observedOn;
+    }
+  }
+
+  if (carried.length > 0) {
+    prov.versions = [...(prov.versions ?? []), ...carried].sort((x, y) => x.valid_to.localeCompare(y.valid_to));
+  }
+  return carried.length;
+}
+
 function normalizeWhitespace(text: string): string {
   return text.replace(/\s+/g, ' ').trim();
 }
 
+/**
+ * Serialize provision metadata, attaching the subsection/paragraph tree used
+ * for pinpoint lookups such as s26(1)(b).
+ */
+function provisionMetadata(
+  metadata: Record<string, unknown> | undefined,
+  structure: ProvisionNode | null | undefined,
+): string | null {
+  if (!structure) return metadata ? JSON.stringify(metadata) : null;
+  return JSON.stringify({ ...metadata, structure });
+}
+
 function dedupeProvisions(provisions: ProvisionSeed[]): ProvisionSeed[] {
   const byRef = new Map<string, ProvisionSeed>();
   for (const prov of provisions) {
@@ -247,6 +913,64 @@ function dedupeProvisions(provisions: ProvisionSeed[]): ProvisionSeed[] {
   return Array.from(byRef.values());
 }
 
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** One pattern per catalogued instrument, matching any of its aliases. */
+function instrumentAliasPatterns(
+  instruments: InternationalInstrumentCatalogueSeed['instruments'],
+): { instrumentId: string; pattern: RegExp }[] {
+  return instruments
+    .filter(i => i.aliases && i.aliases.length > 0)
+    .map(i => ({
+      instrumentId: i.id,
+      pattern: new RegExp(`\\b(?:${i.aliases!.map(escapeRegExp).join('|')})\\b`, 'gi'),
+    }));
+}
+
+/**
+ * Mentions of catalogued international instruments in provision text. The
+ * article or recommendation comes from a "Recommendation 19 of the ..." just
+ * before the name.
+ */
+function extractInternationalReferences(
+  text: string,
+  patterns: { instrumentId: string; pattern: RegExp }[],
+): ExtractedInternationalReference[] {
+  const refs: ExtractedInternationalReference[] = [];
+  const seen = new Set<string>();
+
+  for (const { instrumentId, pattern } of patterns) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const before = text.slice(Math.max(0, match.index - 60), match.index);
+      const article = before.match(/\b(?:Article|Recommendation)\s+(\d+[A-Za-z]?)(?:\(\d+\))*\s+(?:of\s+)?(?:the\s+)?$/i)?.[1] ?? null;
+
+      const dedupeKey = `${instrumentId}:${article ?? ''}`;
+      if (seen.has(dedupeKey)) continue;
+      seen.add(dedupeKey);
+
+      const start = Math.max(0, match.index - 120);
+      const end = Math.min(text.length, match.index + match[0].length + 120);
+      const context = text.slice(start, end).replace(/\s+/g, ' ').trim();
+      refs.push({
+        instrumentId,
+        article,
+        referenceType: /\b(implement|give effect|domesticat|pursuant to)/i.test(context) ? 'implements' : 'references',
+        context,
+      });
+    }
+  }
+
+  return refs;
+}
+
+function eurLexUrl(type: EUDocumentType, year: number, number: number): string {
+  return `https://eur-lex.europa.eu/eli/${type === 'regulation' ? 'reg' : 'dir'}/${year}/${number}/oj`;
+}
+
 function extractEuReferences(text: string): ExtractedEUReference[] {
   if (!text || text.trim().length === 0) return [];
 
@@ -273,6 +997,11 @@ function extractEuReferences(text: string): ExtractedEUReference[] {
         rawYear = match[2]; rawNumber = match[3]; communityRaw = undefined;
       }
 
+      // Regulations before 2015 are numbered "No 139/2004": number first, then year
+      if (type === 'regulation' && rawNumber.length === 4 && rawYear.length !== 4) {
+        [rawYear, rawNumber] = [rawNumber, rawYear];
+      }
+
       const parsedYear = Number.parseInt(rawYear, 10);
       const year = rawYear.length === 2 ? (parsedYear >= 50 ? 1900 + parsedYear : 2000 + parsedYear) : parsedYear;
       const number = Number.parseInt(rawNumber, 10);
@@ -301,9 +1030,67 @@ function extractEuReferences(text: string): ExtractedEUReference[] {
   return refs;
 }
 
+/**
+ * Extract amendment annotations from consolidated provision text. Kenya Law's
+ * revised editions close each amended unit with its amending instruments:
+ *   "[Act No. 1 of 2009 , s. 31, Act No. 10 of 2023 , Sch.]"
+ *   "[L.N. 23/2011, Sch, Act No. 27 of 2019 , s. 7.]"
+ *   "[Deleted by Act No. 6 of 2025, Sch.]"
+ */
+function extractAmendmentAnnotations(text: string): ExtractedAmendment[] {
+  const amendments: ExtractedAmendment[] = [];
+  const instrumentStart = /(?:,\s*|\s+)(?=Act No\.|L\.\s?N\.|LN\b)/;
+  const instrumentPattern = /^(?:(Deleted|Repealed|Inserted|Substituted|Amended) by\s+)?(?:Act No\.\s*(\w+)\s+of\s+(\d{4})|(?:L\.\s?N\.?|LN)\s*(?:No\.\s*)?(\d+)\s*(?:of\s+|\/)\s*(\d{4}))\s*,?\s*(.*)$/i;
+
+  for (const bracket of text.matchAll(/\[([^[\]]*?(?:Act No\.|L\.\s?N\.|\bLN\b)[^[\]]*)\]/g)) {
+    const inner = bracket[1].trim();
+    const verb = inner.match(/^(Deleted|Repealed|Inserted|Substituted)\b/i)?.[1].toLowerCase();
+    const changeType: AmendmentChangeType = verb === 'deleted' || verb === 'repealed'
+      ? 'deleted'
+      : (verb as AmendmentChangeType | undefined) ?? 'amended';
+
+    for (const part of inner.split(instrumentStart)) {
+      const match = part.trim().match(instrumentPattern);
+      if (!match) continue;
+
+      const instrument = match[2]
+        ? `Act No. ${match[2]} of ${match[3]}`
+        : `Legal Notice No. ${match[4]} of ${match[5]}`;
+      let amendingProvision = match[6].replace(/[\s.,]+$/, '').replace(/\s+/g, ' ');
+      if (/sch$/i.test(amendingProvision)) amendingProvision = `${amendingProvision.slice(0, -3)}Sch.`;
+      if (/^\d+[A-Z]?$/.test(amendingProvision)) amendingProvision = `s. ${amendingProvision}`;
+
+      amendments.push({
+        instrument,
+        year: match[3] ?? match[5],
+        amendingProvision: amendingProvision || null,
+        changeType,
+      });
+    }
+  }
+
+  return amendments;
+}
+
+/**
+ * Key a document by the Act or Legal Notice number in its AKN URL
+ * (".../akn/ke/act/2019/24/" -> "Act No. 24 of 2019"), matching the form
+ * amendment annotations cite.
+ */
+function instrumentKey(url: string | null): string | null {
+  const ln = url?.match(/\/akn\/ke\/act\/ln\/(\d{4})\/(\w+)/);
+  if (ln) return `Legal Notice No. ${ln[2]} of ${ln[1]}`;
+  const act = url?.match(/\/akn\/ke\/act\/(\d{4})\/(\d+\w*)/);
+  return act ? `Act No. ${act[2]} of ${act[1]}` : null;
+}
+
 function buildDatabase(): void {
   console.log('Building Kenya Law MCP database...\n');
 
+  const fresh = process.argv.includes('--fresh');
+  const previousWordings = fresh ? new Map<string, PreviousWording[]>() : readPreviousWordings(DB_PATH);
+  const observedOn = new Date().toISOString().slice(0, 10);
+
   if (fs.existsSync(DB_PATH)) {
     fs.unlinkSync(DB_PATH);
     console.log('  Deleted existing database.\n');
@@ -326,8 +1113,23 @@ function buildDatabase(): void {
   `);
 
   const insertProvision = db.prepare(`
-    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, metadata)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, metadata, valid_from, valid_to)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertProvisionStatus = db.prepare(`
+    INSERT INTO provision_status (document_id, provision_ref, status, authority_type, authority, effective_date, end_date, note)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertCommencement = db.prepare(`
+    INSERT INTO commencements (document_id, provision_ref, provisions, commencement_date, legal_notice, note)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertTranslation = db.prepare(`
+    INSERT OR REPLACE INTO provision_translations (document_id, provision_ref, language, title, content, metadata)
+    VALUES (?, ?, ?, ?, ?, ?)
   `);
 
   const insertDefinition = db.prepare(`
@@ -365,10 +1167,78 @@ function buildDatabase(): void {
 
   let totalDocs = 0;
   let totalProvisions = 0;
+  let totalVersions = 0;
+  let totalCarriedOver = 0;
   let totalDefs = 0;
+  let totalStatuses = 0;
+  let totalCommencements = 0;
+  let totalTranslations = 0;
+  let totalStructured = 0;
   let totalEuDocuments = 0;
   let totalEuReferences = 0;
   const primaryImplementationByDocument = new Set<string>();
+  const subsidiarySeeds: DocumentSeed[] = [];
+  const amendmentSeeds: DocumentSeed[] = [];
+
+  // The EU catalogue goes in first so references extracted from statute text join against it
+  const catalogueFiles = fs.existsSync(EU_INSTRUMENT_SEED_DIR)
+    ? fs.readdirSync(EU_INSTRUMENT_SEED_DIR).filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+    : [];
+  const insertCatalogueEntry = db.prepare(`
+    INSERT OR REPLACE INTO eu_documents
+      (id, type, year, number, community, celex_number, title, short_name, adoption_date,
+       entry_into_force_date, in_force, amended_by, repealed_by, url_eur_lex, description)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const loadCatalogue = db.transaction(() => {
+    for (const file of catalogueFiles) {
+      const seed = JSON.parse(fs.readFileSync(path.join(EU_INSTRUMENT_SEED_DIR, file), 'utf-8')) as EUInstrumentCatalogueSeed;
+      for (const eu of seed.instruments) {
+        insertCatalogueEntry.run(
+          eu.id, eu.type, eu.year, eu.number, eu.community, eu.celex_number, eu.title,
+          eu.short_name ?? null, eu.adoption_date, eu.entry_into_force_date ?? null, eu.in_force ? 1 : 0,
+          eu.amended_by ?? null, eu.repealed_by ?? null, eurLexUrl(eu.type, eu.year, eu.number),
+          eu.description ?? null,
+        );
+        totalEuDocuments++;
+      }
+    }
+    db.exec(`
+      UPDATE eu_documents SET repeals = (
+        SELECT group_concat(r.id, ', ') FROM eu_documents r WHERE r.repealed_by = eu_documents.id
+      )
+    `);
+    for (const row of db.prepare(`
+      SELECT id, repealed_by FROM eu_documents
+      WHERE repealed_by IS NOT NULL AND repealed_by NOT IN (SELECT id FROM eu_documents)
+    `).all() as { id: string; repealed_by: string }[]) {
+      console.log(`  WARNING: ${row.id} repealed by ${row.repealed_by}, which is not in the EU catalogue`);
+    }
+  });
+  loadCatalogue();
+
+  const euProvisionFiles = fs.existsSync(EU_PROVISION_SEED_DIR)
+    ? fs.readdirSync(EU_PROVISION_SEED_DIR).filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+    : [];
+  const insertEuProvision = db.prepare(
+    'INSERT OR REPLACE INTO eu_provisions (eu_document_id, article, title, content) VALUES (?, ?, ?, ?)'
+  );
+  const isCatalogued = db.prepare('SELECT 1 FROM eu_documents WHERE id = ?');
+  let totalEuProvisions = 0;
+  const loadEuProvisions = db.transaction(() => {
+    for (const file of euProvisionFiles) {
+      const seed = JSON.parse(fs.readFileSync(path.join(EU_PROVISION_SEED_DIR, file), 'utf-8')) as EUProvisionSeed;
+      if (!isCatalogued.get(seed.eu_document_id)) {
+        console.log(`  WARNING: ${file} holds articles of ${seed.eu_document_id}, which is not in the EU catalogue`);
+        continue;
+      }
+      for (const article of seed.articles) {
+        insertEuProvision.run(seed.eu_document_id, article.article, article.title, article.content);
+        totalEuProvisions++;
+      }
+    }
+  });
+  loadEuProvisions();
 
   const loadAll = db.transaction(() => {
     for (const file of seedFiles) {
@@ -388,12 +1258,31 @@ function buildDatabase(): void {
         const deduped = dedupeProvisions(seed.provisions);
 
         for (const prov of deduped) {
+          const previous = previousWordings.get(`${seed.id}:${prov.provision_ref}`);
+          if (previous) totalCarriedOver += mergePreviousWordings(prov, previous, observedOn);
+
+          // Superseded wordings first, so each version's valid_from chains from the previous valid_to
+          let previousValidTo = seed.in_force_date ?? null;
+          for (const version of prov.versions ?? []) {
+            insertProvision.run(
+              seed.id, prov.provision_ref, prov.chapter ?? null,
+              prov.section, version.title ?? prov.title ?? null, version.content,
+              provisionMetadata(prov.metadata, splitProvisionText(version.content)),
+              version.valid_from ?? previousValidTo, version.valid_to,
+            );
+            previousValidTo = version.valid_to;
+            totalVersions++;
+          }
+
+          const structure = prov.structure ?? splitProvisionText(prov.content);
           const insertResult = insertProvision.run(
             seed.id, prov.provision_ref, prov.chapter ?? null,
             prov.section, prov.title ?? null, prov.content,
-            prov.metadata ? JSON.stringify(prov.metadata) : null,
+            provisionMetadata(prov.metadata, structure),
+            prov.valid_from ?? previousValidTo, null,
           );
           totalProvisions++;
+          if (structure) totalStructured++;
 
           const provisionId = Number(insertResult.lastInsertRowid);
           const extractedRefs = extractEuReferences(prov.content);
@@ -402,13 +1291,11 @@ function buildDatabase(): void {
             const lastVerified = new Date().toISOString();
 
             for (const ref of extractedRefs) {
-              const eurLexType = ref.type === 'regulation' ? 'reg' : 'dir';
-              const eurLexUrl = `https://eur-lex.europa.eu/eli/${eurLexType}/${ref.year}/${ref.number}/oj`;
               const shortName = `${ref.type === 'regulation' ? 'Regulation' : 'Directive'} ${ref.year}/${ref.number}`;
 
               const euInsert = insertEuDocument.run(
                 ref.euDocumentId, ref.type, ref.year, ref.number, ref.community,
-                shortName, shortName, eurLexUrl, 'Auto-extracted from Kenyan statute text',
+                shortName, shortName, eurLexUrl(ref.type, ref.year, ref.number), 'Auto-extracted from Kenyan statute text',
               );
               if (euInsert.changes > 0) totalEuDocuments++;
 
@@ -431,6 +1318,60 @@ function buildDatabase(): void {
         }
       }
 
+      if (seed.parent_document_id) subsidiarySeeds.push(seed);
+      if (seed.amendments) amendmentSeeds.push(seed);
+
+      const knownRefs = new Set((seed.provisions ?? []).map(p => p.provision_ref));
+      for (const entry of seed.provision_status ?? []) {
+        for (const ref of entry.provision_refs) {
+          if (!knownRefs.has(ref)) {
+            console.log(`  WARNING: ${seed.id} provision_status references unknown provision ${ref}`);
+            continue;
+          }
+          insertProvisionStatus.run(
+            seed.id, ref, entry.status, entry.authority_type, entry.authority,
+            entry.effective_date ?? null, entry.end_date ?? null, entry.note ?? null,
+          );
+          totalStatuses++;
+        }
+      }
+
+      for (const [language, translation] of Object.entries(seed.translations ?? {})) {
+        if (translation && !translation.source_url) {
+          console.log(`  WARNING: ${seed.id} ${language} text has no source_url; skipped`);
+          continue;
+        }
+        for (const prov of translation?.provisions ?? []) {
+          if (!knownRefs.has(prov.provision_ref)) {
+            console.log(`  WARNING: ${seed.id} ${language} text references unknown provision ${prov.provision_ref}`);
+            continue;
+          }
+          insertTranslation.run(
+            seed.id, prov.provision_ref, language, prov.title ?? null, prov.content,
+            provisionMetadata({ source_url: translation!.source_url }, splitProvisionText(prov.content)),
+          );
+          totalTranslations++;
+        }
+      }
+
+      const orderedRefs = dedupeProvisions(seed.provisions ?? []).map(p => p.provision_ref);
+      for (const entry of seed.commencements ?? []) {
+        const label = entry.provisions?.join(', ') ?? null;
+        if (!entry.provisions) {
+          insertCommencement.run(seed.id, null, null, entry.commencement_date, entry.legal_notice ?? null, entry.note ?? null);
+          totalCommencements++;
+          continue;
+        }
+        const { refs, unknown } = expandProvisionRanges(entry.provisions, orderedRefs);
+        for (const range of unknown) {
+          console.log(`  WARNING: ${seed.id} commencement references unknown provisions ${range}`);
+        }
+        for (const ref of refs) {
+          insertCommencement.run(seed.id, ref, label, entry.commencement_date, entry.legal_notice ?? null, entry.note ?? null);
+          totalCommencements++;
+        }
+      }
+
       for (const def of seed.definitions ?? []) {
         insertDefinition.run(
           seed.id, def.term, null, def.definition, def.source_provision ?? null,
@@ -442,16 +1383,492 @@ function buildDatabase(): void {
 
   loadAll();
 
+  // Parent links are inserted once every Act is loaded, whatever the seed file order
+  const insertSubsidiary = db.prepare(`
+    INSERT OR IGNORE INTO subsidiary_legislation (document_id, parent_document_id, enabling_provision_ref, legal_notice)
+    VALUES (?, ?, ?, ?)
+  `);
+  let totalSubsidiary = 0;
+  const loadSubsidiaryLinks = db.transaction(() => {
+    for (const seed of subsidiarySeeds) {
+      const parentId = seed.parent_document_id!;
+      const parentExists = db.prepare('SELECT 1 FROM legal_documents WHERE id = ?').get(parentId);
+      if (!parentExists) {
+        console.log(`  WARNING: ${seed.id} parent_document_id references unknown document ${parentId}`);
+        continue;
+      }
+      const enabling = seed.enabling_provisions && seed.enabling_provisions.length > 0 ? seed.enabling_provisions : [null];
+      for (const ref of enabling) {
+        insertSubsidiary.run(seed.id, parentId, ref, seed.legal_notice ?? null);
+      }
+      totalSubsidiary++;
+    }
+  });
+  loadSubsidiaryLinks();
+
+  // Second pass: cross-references need every document loaded to resolve targets
+  const documents = db.prepare('SELECT id, title, short_name FROM legal_documents').all() as
+    { id: string; title: string; short_name: string | null }[];
+  const titleIndex: ActTitleIndex = { byTitle: new Map(), yearById: new Map() };
+  for (const doc of documents) {
+    titleIndex.byTitle.set(normalizeActTitle(doc.title), doc.id);
+    titleIndex.yearById.set(doc.id, doc.title.match(/\b(\d{4})\b/)?.[1] ?? null);
+  }
+  const constitutionId = titleIndex.byTitle.get(normalizeActTitle('Constitution of Kenya')) ?? null;
+
+  const provisionRefs = new Set(
+    (db.prepare('SELECT document_id, provision_ref FROM legal_provisions WHERE valid_to IS NULL').all() as
+      { document_id: string; provision_ref: string }[]).map(r => `${r.document_id}:${r.provision_ref}`)
+  );
+
+  const insertCrossReference = db.prepare(`
+    INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  let totalCrossReferences = 0;
+  const loadCrossReferences = db.transaction(() => {
+    const provisions = db.prepare(
+      'SELECT document_id, provision_ref, content FROM legal_provisions WHERE valid_to IS NULL ORDER BY id'
+    ).all() as { document_id: string; provision_ref: string; content: string }[];
+
+    for (const prov of provisions) {
+      for (const ref of extractCrossReferences(prov.content, prov.document_id, titleIndex, constitutionId)) {
+        // The Constitution is stored with "s" refs; Acts may use either prefix
+        let targetRef = ref.targetProvisionRef;
+        if (targetRef && !provisionRefs.has(`${ref.targetDocumentId}:${targetRef}`)) {
+          const artRef = targetRef.replace(/^s/, 'art');
+          if (provisionRefs.has(`${ref.targetDocumentId}:${artRef}`)) targetRef = artRef;
+        }
+        if (ref.targetDocumentId === prov.document_id && targetRef === prov.provision_ref) continue;
+
+        insertCrossReference.run(
+          prov.document_id, prov.provision_ref, ref.targetDocumentId, targetRef, ref.refType,
+        );
+        totalCrossReferences++;
+      }
+    }
+  });
+  loadCrossReferences();
+
+  // Amendment events: curated entries first, so their dates and titles win over annotations
+  const documentsByInstrument = new Map<string, string>();
+  for (const doc of db.prepare('SELECT id, url FROM legal_documents').all() as { id: string; url: string | null }[]) {
+    const key = instrumentKey(doc.url);
+    if (key) documentsByInstrument.set(key, doc.id);
+  }
+
+  const insertAmendment = db.prepare(`
+    INSERT OR IGNORE INTO amendments
+      (document_id, provision_ref, amending_instrument, amending_title, amending_document_id,
+       amending_provision, amendment_date, year, change_type, source, note)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  let totalAmendments = 0;
+  const amendedDocuments = new Set<string>();
+  const recordAmendedBy = (documentId: string, provisionRef: string | null, amendingId: string | null) => {
+    if (!amendingId || amendingId === documentId) return;
+    const key = `${documentId}:${provisionRef ?? ''}:${amendingId}`;
+    if (amendedDocuments.has(key)) return;
+    amendedDocuments.add(key);
+    insertCrossReference.run(documentId, provisionRef, amendingId, null, 'amended_by');
+    totalCrossReferences++;
+  };
+
+  const loadAmendments = db.transaction(() => {
+    for (const seed of amendmentSeeds) {
+      for (const entry of seed.amendments ?? []) {
+        const amendingId = documentsByInstrument.get(entry.amending_instrument) ?? null;
+        const refs = entry.provision_refs && entry.provision_refs.length > 0 ? entry.provision_refs : [null];
+        for (const ref of refs) {
+          if (ref && !provisionRefs.has(`${seed.id}:${ref}`)) {
+            console.log(`  WARNING: ${seed.id} amendment references unknown provision ${ref}`);
+            continue;
+          }
+          const inserted = insertAmendment.run(
+            seed.id, ref, entry.amending_instrument, entry.amending_title ?? null, amendingId,
+            entry.amending_provision ?? null, entry.date ?? null, entry.date?.slice(0, 4) ?? null,
+            entry.change_type, 'curated', entry.note ?? null,
+          );
+          if (inserted.changes > 0) totalAmendments++;
+          recordAmendedBy(seed.id, ref, amendingId);
+        }
+      }
+    }
+
+    const provisions = db.prepare(
+      'SELECT document_id, provision_ref, content FROM legal_provisions WHERE valid_to IS NULL ORDER BY id'
+    ).all() as { document_id: string; provision_ref: string; content: string }[];
+
+    for (const prov of provisions) {
+      for (const amendment of extractAmendmentAnnotations(prov.content)) {
+        const amendingId = documentsByInstrument.get(amendment.instrument) ?? null;
+        const inserted = insertAmendment.run(
+          prov.document_id, prov.provision_ref, amendment.instrument, null, amendingId,
+          amendment.amendingProvision, null, amendment.year, amendment.changeType, 'annotation', null,
+        );
+        if (inserted.changes > 0) totalAmendments++;
+        recordAmendedBy(prov.document_id, prov.provision_ref, amendingId);
+      }
+    }
+  });
+  loadAmendments();
+
+  // Curated EU mappings: articles the Act lacks go to eu_gaps
+  const euMappingFiles = fs.existsSync(EU_MAPPING_SEED_DIR)
+    ? fs.readdirSync(EU_MAPPING_SEED_DIR).filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+    : [];
+
+  const insertEuMapping = db.prepare(`
+    INSERT OR IGNORE INTO eu_references
+      (source_type, source_id, document_id, provision_id, eu_document_id, eu_article,
+       reference_type, reference_context, full_citation, implementation_status, correspondence, last_verified)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertEuGap = db.prepare(`
+    INSERT OR IGNORE INTO eu_gaps (document_id, eu_document_id, eu_article, full_citation, note)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  let totalEuGaps = 0;
+  const currentProvisionId = db.prepare(
+    'SELECT id FROM legal_provisions WHERE document_id = ? AND provision_ref = ? AND valid_to IS NULL'
+  );
+  const implementationStatus: Record<EUCorrespondence, string> = {
+    equivalent: 'complete',
+    broader: 'complete',
+    narrower: 'partial',
+  };
+
+  const loadEuMappings = db.transaction(() => {
+    for (const file of euMappingFiles) {
+      const seed = JSON.parse(fs.readFileSync(path.join(EU_MAPPING_SEED_DIR, file), 'utf-8')) as EUMappingSeed;
+      if (!titleIndex.yearById.has(seed.document_id)) {
+        console.log(`  WARNING: ${file} maps unknown document ${seed.document_id}`);
+        continue;
+      }
+
+      const eu = db.prepare('SELECT id, type, year, number, short_name FROM eu_documents WHERE id = ?').get(seed.eu_document_id) as
+        { id: string; type: EUDocumentType; year: number; number: number; short_name: string | null } | undefined;
+      if (!eu) {
+        console.log(`  WARNING: ${file} maps ${seed.eu_document_id}, which is not in the EU catalogue`);
+        continue;
+      }
+
+      const citationPrefix = eu.short_name ?? `${eu.type === 'regulation' ? 'Regulation' : 'Directive'} ${eu.year}/${eu.number}`;
+      const lastVerified = new Date().toISOString();
+      const mapProvision = (
+        provisionRef: string, article: string | null, referenceType: string,
+        note: string | null, citation: string | null, correspondence: EUCorrespondence | null,
+      ) => {
+        const provision = currentProvisionId.get(seed.document_id, provisionRef) as { id: number } | undefined;
+        if (!provision) {
+          console.log(`  WARNING: ${file} references unknown provision ${provisionRef}`);
+          return;
+        }
+        const mapped = insertEuMapping.run(
+          'provision', `${seed.document_id}:${provisionRef}`, seed.document_id, provision.id, eu.id, article,
+          referenceType, note, citation, correspondence ? implementationStatus[correspondence] : null,
+          correspondence, lastVerified,
+        );
+        if (mapped.changes > 0) totalEuReferences++;
+      };
+
+      for (const entry of seed.articles) {
+        const citation = `${citationPrefix}, Article ${entry.article} (${entry.title})`;
+        if (entry.provisions.length === 0) {
+          const gap = insertEuGap.run(seed.document_id, eu.id, entry.article, citation, entry.note ?? null);
+          if (gap.changes > 0) totalEuGaps++;
+          continue;
+        }
+        for (const prov of entry.provisions) {
+          mapProvision(prov.provision_ref, entry.article, 'implements', prov.note ?? entry.note ?? null, citation, prov.correspondence);
+        }
+      }
+
+      // Sections beyond the instrument supplement it; they have no article to correspond to
+      for (const prov of seed.beyond ?? []) {
+        mapProvision(prov.provision_ref, null, 'supplements', prov.note ?? null, null, null);
+      }
+    }
+  });
+  loadEuMappings();
+
+  // International instruments: catalogue, then mentions in provision text, then curated mappings
+  const readSeedDir = <T>(dir: string): { file: string; seed: T }[] => fs.existsSync(dir)
+    ? fs.readdirSync(dir)
+      .filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+      .map(file => ({ file, seed: JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) as T }))
+    : [];
+  const instruments = readSeedDir<InternationalInstrumentCatalogueSeed>(INTERNATIONAL_INSTRUMENT_SEED_DIR)
+    .flatMap(({ seed }) => seed.instruments);
+  const internationalMappings = readSeedDir<InternationalMappingSeed>(INTERNATIONAL_MAPPING_SEED_DIR);
+
+  const insertInstrument = db.prepare(`
+    INSERT OR REPLACE INTO international_instruments
+      (id, instrument_type, title, short_name, organisation, adopted_date, entry_into_force_date, kenya_status, description)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertInternationalReference = db.prepare(`
+    INSERT OR IGNORE INTO international_references
+      (document_id, provision_id, instrument_id, instrument_article, reference_type, source, reference_context)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  let totalInstruments = 0;
+  let totalInternationalReferences = 0;
+  const loadInternational = db.transaction(() => {
+    for (const instrument of instruments) {
+      insertInstrument.run(
+        instrument.id, instrument.instrument_type, instrument.title, instrument.short_name ?? null,
+        instrument.organisation, instrument.adopted_date ?? null, instrument.entry_into_force_date ?? null,
+        instrument.kenya_status ?? null, instrument.description ?? null,
+      );
+      totalInstruments++;
+    }
+
+    const patterns = instrumentAliasPatterns(instruments);
+    const provisions = db.prepare(
+      'SELECT id, document_id, content FROM legal_provisions WHERE valid_to IS NULL ORDER BY id'
+    ).all() as { id: number; document_id: string; content: string }[];
+    for (const prov of provisions) {
+      for (const ref of extractInternationalReferences(prov.content, patterns)) {
+        const inserted = insertInternationalReference.run(
+          prov.document_id, prov.id, ref.instrumentId, ref.article, ref.referenceType, 'extracted', ref.context,
+        );
+        if (inserted.changes > 0) totalInternationalReferences++;
+      }
+    }
+
+    const instrumentIds = new Set(instruments.map(i => i.id));
+    for (const { file, seed } of internationalMappings) {
+      if (!titleIndex.yearById.has(seed.document_id)) {
+        console.log(`  WARNING: ${file} maps unknown document ${seed.document_id}`);
+        continue;
+      }
+      for (const entry of seed.instruments) {
+        if (!instrumentIds.has(entry.instrument_id)) {
+          console.log(`  WARNING: ${file} maps ${entry.instrument_id}, which is not in the instrument catalogue`);
+          continue;
+        }
+        if (entry.provisions.length === 0) {
+          const inserted = insertInternationalReference.run(
+            seed.document_id, null, entry.instrument_id, null, 'implements', 'curated', entry.note ?? null,
+          );
+          if (inserted.changes > 0) totalInternationalReferences++;
+          continue;
+        }
+        for (const prov of entry.provisions) {
+          const provision = currentProvisionId.get(seed.document_id, prov.provision_ref) as { id: number } | undefined;
+          if (!provision) {
+            console.log(`  WARNING: ${file} references unknown provision ${prov.provision_ref}`);
+            continue;
+          }
+          const inserted = insertInternationalReference.run(
+            seed.document_id, provision.id, entry.instrument_id, prov.article ?? null, 'implements', 'curated',
+            prov.note ?? entry.note ?? null,
+          );
+          if (inserted.changes > 0) totalInternationalReferences++;
+        }
+      }
+    }
+  });
+  loadInternational();
+
+  const caseLawFiles = fs.existsSync(CASE_LAW_SEED_DIR)
+    ? fs.readdirSync(CASE_LAW_SEED_DIR).filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+    : [];
+
+  let totalCases = 0;
+  let totalTreatments = 0;
+  if (caseLawFiles.length > 0) {
+    db.exec(CASE_LAW_SCHEMA);
+
+    // The same judgment can be saved under two case IDs; neutral_citation is unique
+    const insertCase = db.prepare(`
+      INSERT OR IGNORE INTO case_law
+        (case_id, neutral_citation, case_number, title, parties, court, court_code,
+         decision_date, judges, summary, full_text, url)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertTreatment = db.prepare(`
+      INSERT OR IGNORE INTO case_law_provisions (case_id, document_id, provision_ref, treatment, context)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const loadCaseLaw = db.transaction(() => {
+      for (const file of caseLawFiles) {
+        const seed = JSON.parse(fs.readFileSync(path.join(CASE_LAW_SEED_DIR, file), 'utf-8')) as CaseLawSeed;
+        const caseInsert = insertCase.run(
+          seed.case_id, seed.neutral_citation ?? null, seed.case_number ?? null, seed.title,
+          seed.parties ? JSON.stringify(seed.parties) : null, seed.court, seed.court_code ?? null,
+          seed.decision_date ?? null, seed.judges ? JSON.stringify(seed.judges) : null,
+          seed.summary ?? null, seed.full_text, seed.url ?? null,
+        );
+        if (caseInsert.changes === 0) {
+          console.log(`  WARNING: ${file} duplicates a judgment already loaded (${seed.neutral_citation ?? seed.case_id}); skipped`);
+          continue;
+        }
+        totalCases++;
+
+        const treatments = [
+          ...(seed.treatments ?? []),
+          ...extractJudicialTreatments(seed.full_text, titleIndex, constitutionId),
+        ];
+        for (const t of treatments) {
+          // Constitution and some Acts store "art" refs; align with the provision table
+          let provisionRef = t.provision_ref;
+          if (!provisionRefs.has(`${t.document_id}:${provisionRef}`)) {
+            const artRef = provisionRef.replace(/^s/, 'art');
+            if (provisionRefs.has(`${t.document_id}:${artRef}`)) provisionRef = artRef;
+          }
+          const inserted = insertTreatment.run(seed.case_id, t.document_id, provisionRef, t.treatment, t.context ?? null);
+          if (inserted.changes > 0) totalTreatments++;
+        }
+      }
+    });
+    loadCaseLaw();
+  }
+
+  const billFiles = fs.existsSync(PREPARATORY_WORKS_SEED_DIR)
+    ? fs.readdirSync(PREPARATORY_WORKS_SEED_DIR).filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+    : [];
+
+  let totalBills = 0;
+  let totalPreparatoryWorks = 0;
+  if (billFiles.length > 0) {
+    db.exec(PREPARATORY_WORKS_SCHEMA);
+
+    const statuteIds = new Set(documents.map(d => d.id));
+    const insertWork = db.prepare(`
+      INSERT INTO preparatory_works (statute_id, prep_document_id, work_type, title, date, summary, full_text, url)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const loadPreparatoryWorks = db.transaction(() => {
+      for (const file of billFiles) {
+        const seed = JSON.parse(fs.readFileSync(path.join(PREPARATORY_WORKS_SEED_DIR, file), 'utf-8')) as BillSeed;
+        let statuteId = seed.enacted_as ?? null;
+        if (statuteId && !statuteIds.has(statuteId)) {
+          console.log(`  WARNING: ${seed.id} enacted_as unknown document ${statuteId}`);
+          statuteId = null;
+        }
+
+        insertDoc.run(
+          seed.id, 'bill', seed.title, seed.title, seed.bill_number ?? null, 'not_yet_in_force',
+          seed.published_date ?? null, null, seed.url ?? null, seed.description ?? null,
+        );
+        totalBills++;
+
+        const billSummary = [seed.bill_number, seed.gazette_supplement, seed.description].filter(Boolean).join('. ');
+        insertWork.run(
+          statuteId, seed.id, 'bill', seed.title, seed.published_date ?? null,
+          billSummary || null, seed.content ?? null, seed.url ?? null,
+        );
+        totalPreparatoryWorks++;
+
+        if (seed.memorandum) {
+          insertWork.run(
+            statuteId, seed.id, 'memorandum', `Memorandum of Objects and Reasons — ${seed.title}`,
+            seed.memorandum.date ?? seed.published_date ?? null, null, seed.memorandum.text, seed.url ?? null,
+          );
+          totalPreparatoryWorks++;
+        }
+
+        for (const doc of seed.documents ?? []) {
+          insertWork.run(
+            statuteId, seed.id, doc.type, doc.title, doc.date ?? null,
+            doc.summary ?? null, doc.full_text ?? null, doc.url ?? null,
+          );
+          totalPreparatoryWorks++;
+        }
+      }
+    });
+    loadPreparatoryWorks();
+  }
+
+  const gazetteFiles = fs.existsSync(GAZETTE_SEED_DIR)
+    ? fs.readdirSync(GAZETTE_SEED_DIR).filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+    : [];
+
+  let totalGazetteNotices = 0;
+  let totalLinkedNotices = 0;
+  db.exec(GAZETTE_SCHEMA);
+  if (gazetteFiles.length > 0) {
+    const documentIds = new Set(documents.map(d => d.id));
+    const insertNotice = db.prepare(`
+      INSERT OR IGNORE INTO gazette_notices
+        (notice_id, volume, issue_number, issue_date, notice_number, notice_type, title, body, signed_date, document_id, url)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const loadGazette = db.transaction(() => {
+      for (const file of gazetteFiles) {
+        const seed = JSON.parse(fs.readFileSync(path.join(GAZETTE_SEED_DIR, file), 'utf-8')) as GazetteIssueSeed;
+        const year = seed.issue_date?.slice(0, 4);
+        for (const notice of seed.notices) {
+          // Notice numbers restart each year
+          const noticeId = year
+            ? `gn-${year}-${notice.notice_number}`
+            : `gn-vol-${(seed.volume ?? 'unknown').toLowerCase()}-${notice.notice_number}`;
+
+          // Headings are in capitals ("THE DATA PROTECTION ACT"); the Act in the heading wins over the body
+          let documentId = notice.document_id ?? null;
+          if (documentId && !documentIds.has(documentId)) {
+            console.log(`  WARNING: ${noticeId} linked to unknown document ${documentId}`);
+            documentId = null;
+          }
+          if (!documentId) {
+            const refs = extractCrossReferences(
+              `${toTitleCase(notice.title)}. ${notice.body}`, '', titleIndex, constitutionId,
+            );
+            documentId = refs.find(r => r.targetDocumentId !== '')?.targetDocumentId ?? null;
+          }
+
+          const inserted = insertNotice.run(
+            noticeId, seed.volume ?? null, seed.issue_number ?? null, seed.issue_date ?? null,
+            notice.notice_number, notice.notice_type, notice.title, notice.body,
+            notice.signed_date ?? null, documentId, seed.url ?? null,
+          );
+          if (inserted.changes > 0) {
+            totalGazetteNotices++;
+            if (documentId) totalLinkedNotices++;
+          }
+        }
+      }
+    });
+    loadGazette();
+  }
+
+  // Semantic search: train on the current wording of every provision
+  const currentProvisions = db.prepare(
+    'SELECT id, title, content FROM legal_provisions WHERE valid_to IS NULL ORDER BY id'
+  ).all() as { id: number; title: string | null; content: string }[];
+  const model = trainEmbeddingModel(
+    currentProvisions.map(p => `${p.title ?? ''} ${p.content}`),
+    EMBEDDING_DIMENSIONS,
+  );
+  const insertTerm = db.prepare('INSERT INTO embedding_terms (term, idf, vector) VALUES (?, ?, ?)');
+  const insertEmbedding = db.prepare('INSERT INTO provision_embeddings (provision_id, vector) VALUES (?, ?)');
+  const loadEmbeddings = db.transaction(() => {
+    for (const term of model.terms) insertTerm.run(term.term, term.idf, encodeVector(term.vector));
+    currentProvisions.forEach((p, i) => insertEmbedding.run(p.id, encodeVector(model.documents[i])));
+  });
+  loadEmbeddings();
+
   // Write build metadata
   const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
   const writeMeta = db.transaction(() => {
-    insertMeta.run('tier', 'free');
-    insertMeta.run('schema_version', '2');
+    insertMeta.run('tier', totalCases > 0 || totalBills > 0 ? 'professional' : 'free');
+    insertMeta.run('schema_version', '5');
     insertMeta.run('built_at', new Date().toISOString());
     insertMeta.run('builder', 'build-db.ts');
     insertMeta.run('jurisdiction', 'KE');
     insertMeta.run('source', 'kenyalaw.org');
     insertMeta.run('licence', 'Government Open Data');
+    insertMeta.run('embedding_model', 'lsa-tfidf-svd');
+    insertMeta.run('embedding_dimensions', String(model.dimensions));
   });
   writeMeta();
 
@@ -464,8 +1881,16 @@ function buildDatabase(): void {
 
   const size = fs.statSync(DB_PATH).size;
   console.log(
-    `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions, ` +
-    `${totalDefs} definitions, ${totalEuDocuments} EU documents, ${totalEuReferences} EU references`
+    `\nBuild complete: ${totalDocs} documents (${totalSubsidiary} subsidiary), ${totalProvisions} provisions ` +
+    `(+${totalVersions} historical versions, ${totalCarriedOver} carried over from the previous build, ${totalStructured} with subsection structure, ` +
+    `${totalStatuses} with provision-level status, ${totalCommencements} commencement entries, ${totalTranslations} Kiswahili texts), ` +
+    `${totalDefs} definitions, ${totalCrossReferences} cross-references, ${totalAmendments} amendment events, ` +
+    `${totalCases} judgments ` +
+    `(${totalTreatments} provision treatments), ${totalBills} Bills (${totalPreparatoryWorks} preparatory works), ` +
+    `${totalGazetteNotices} Gazette notices (${totalLinkedNotices} linked to an Act), ` +
+    `${totalEuDocuments} EU documents (${totalEuProvisions} articles), ${totalEuReferences} EU references (${totalEuGaps} curated gaps), ` +
+    `${totalInstruments} international instruments (${totalInternationalReferences} references), ` +
+    `embeddings for ${currentProvisions.length} provisions (${model.terms.length} terms, ${model.dimensions} dimensions)`
   );
   console.log(`Output: ${DB_PATH} (${(size / 1024 / 1024).toFixed(1)} MB)`);
 }
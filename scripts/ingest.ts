@@ -10,6 +10,10 @@
  *   npm run ingest                    # Full ingestion
  *   npm run ingest -- --limit 5       # Test with 5 acts
  *   npm run ingest -- --skip-fetch    # Reuse cached pages
+ *   npm run ingest -- --case-law      # Parse cached judgments in data/source/case-law/
+ *   npm run ingest -- --judgment <url> # Fetch and parse one judgment (repeatable)
+ *   npm run ingest -- --bills         # Parse Bill texts in data/source/bills/
+ *   npm run ingest -- --gazette       # Parse Kenya Gazette issues in data/source/gazette/
  *
  * Data source: new.kenyalaw.org (National Council for Law Reporting)
  * Format: AKN (Akoma Ntoso) structured HTML
@@ -17,20 +21,52 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { execFileSync } from 'child_process';
 import { fileURLToPath } from 'url';
 import { fetchWithRateLimit } from './lib/fetcher.js';
-import { parseKenyaLawHtml, KEY_KENYAN_ACTS, type ActIndexEntry, type ParsedAct } from './lib/parser.js';
+import {
+  parseKenyaLawHtml,
+  parseKenyaLawJudgmentHtml,
+  parseKenyaLawTranslationHtml,
+  parseBillText,
+  parseGazetteText,
+  KEY_KENYAN_ACTS,
+  KEY_SUBSIDIARY_LEGISLATION,
+  type BillSourceMeta,
+  type ActIndexEntry,
+  type ParsedAct,
+  type ParsedTranslation,
+} from './lib/parser.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const SOURCE_DIR = path.resolve(__dirname, '../data/source');
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
+const CASE_LAW_SOURCE_DIR = path.join(SOURCE_DIR, 'case-law');
+const CASE_LAW_SEED_DIR = path.join(SEED_DIR, 'case-law');
+const BILL_SOURCE_DIR = path.join(SOURCE_DIR, 'bills');
+const PREPARATORY_WORKS_SEED_DIR = path.join(SEED_DIR, 'preparatory-works');
+const GAZETTE_SOURCE_DIR = path.join(SOURCE_DIR, 'gazette');
+const GAZETTE_SEED_DIR = path.join(SEED_DIR, 'gazette');
 
-function parseArgs(): { limit: number | null; skipFetch: boolean } {
+interface IngestArgs {
+  limit: number | null;
+  skipFetch: boolean;
+  caseLaw: boolean;
+  judgmentUrls: string[];
+  bills: boolean;
+  gazette: boolean;
+}
+
+function parseArgs(): IngestArgs {
   const args = process.argv.slice(2);
   let limit: number | null = null;
   let skipFetch = false;
+  let caseLaw = false;
+  let bills = false;
+  let gazette = false;
+  const judgmentUrls: string[] = [];
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--limit' && args[i + 1]) {
@@ -38,10 +74,230 @@ function parseArgs(): { limit: number | null; skipFetch: boolean } {
       i++;
     } else if (args[i] === '--skip-fetch') {
       skipFetch = true;
+    } else if (args[i] === '--case-law') {
+      caseLaw = true;
+    } else if (args[i] === '--judgment' && args[i + 1]) {
+      judgmentUrls.push(args[i + 1]);
+      i++;
+    } else if (args[i] === '--bills') {
+      bills = true;
+    } else if (args[i] === '--gazette') {
+      gazette = true;
+    }
+  }
+
+  return { limit, skipFetch, caseLaw, judgmentUrls, bills, gazette };
+}
+
+/**
+ * Fetch the given judgment URLs into data/source/case-law/, then parse every
+ * cached judgment page there into data/seed/case-law/.
+ */
+async function ingestCaseLaw(judgmentUrls: string[]): Promise<void> {
+  fs.mkdirSync(CASE_LAW_SOURCE_DIR, { recursive: true });
+  fs.mkdirSync(CASE_LAW_SEED_DIR, { recursive: true });
+
+  for (const url of judgmentUrls) {
+    process.stdout.write(`  Fetching judgment ${url}...`);
+    const result = await fetchWithRateLimit(url);
+    if (result.status !== 200) {
+      console.log(` HTTP ${result.status}`);
+      continue;
+    }
+    const fileName = url.replace(/^https?:\/\/[^/]+\//, '').replace(/[^A-Za-z0-9]+/g, '-').replace(/-+$/, '');
+    fs.writeFileSync(path.join(CASE_LAW_SOURCE_DIR, `${fileName}.html`), result.body);
+    fs.writeFileSync(path.join(CASE_LAW_SOURCE_DIR, `${fileName}.url`), result.url);
+    console.log(` OK (${(result.body.length / 1024).toFixed(0)} KB)`);
+  }
+
+  const sourceFiles = fs.readdirSync(CASE_LAW_SOURCE_DIR).filter(f => f.endsWith('.html'));
+  console.log(`\nParsing ${sourceFiles.length} cached judgments...\n`);
+
+  let parsedCount = 0;
+  for (const file of sourceFiles) {
+    const html = fs.readFileSync(path.join(CASE_LAW_SOURCE_DIR, file), 'utf-8');
+    const urlFile = path.join(CASE_LAW_SOURCE_DIR, file.replace(/\.html$/, '.url'));
+    const url = fs.existsSync(urlFile) ? fs.readFileSync(urlFile, 'utf-8').trim() : undefined;
+
+    try {
+      const judgment = parseKenyaLawJudgmentHtml(html, url);
+      if (judgment.full_text.length < 100) {
+        console.log(`  SKIP ${file}: no judgment text found`);
+        continue;
+      }
+      fs.writeFileSync(path.join(CASE_LAW_SEED_DIR, `${judgment.case_id}.json`), JSON.stringify(judgment, null, 2));
+      console.log(`  ${judgment.neutral_citation ?? judgment.case_id}: ${judgment.title}`);
+      parsedCount++;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  ERROR parsing ${file}: ${msg}`);
+    }
+  }
+
+  console.log(`\n  Judgments parsed: ${parsedCount}\n`);
+}
+
+/**
+ * Parse Bill texts in data/source/bills/ into data/seed/preparatory-works/.
+ *
+ * Parliament publishes Bills as Kenya Gazette Supplement PDFs; place the
+ * extracted text as <name>.txt with an optional <name>.json sidecar
+ * ({ url, published_date, enacted_as }). Hansard and committee report
+ * entries curated in an existing seed are kept.
+ */
+function ingestBills(): void {
+  fs.mkdirSync(BILL_SOURCE_DIR, { recursive: true });
+  fs.mkdirSync(PREPARATORY_WORKS_SEED_DIR, { recursive: true });
+
+  const sourceFiles = fs.readdirSync(BILL_SOURCE_DIR).filter(f => f.endsWith('.txt'));
+  console.log(`\nParsing ${sourceFiles.length} Bill texts...\n`);
+
+  let parsedCount = 0;
+  for (const file of sourceFiles) {
+    const metaFile = path.join(BILL_SOURCE_DIR, file.replace(/\.txt$/, '.json'));
+    const meta = fs.existsSync(metaFile)
+      ? JSON.parse(fs.readFileSync(metaFile, 'utf-8')) as BillSourceMeta
+      : {};
+
+    try {
+      const bill = parseBillText(fs.readFileSync(path.join(BILL_SOURCE_DIR, file), 'utf-8'), meta);
+      if (!bill.memorandum) {
+        console.log(`  WARNING ${file}: no Memorandum of Objects and Reasons found`);
+      }
+
+      const seedFile = path.join(PREPARATORY_WORKS_SEED_DIR, `${bill.id}.json`);
+      const previous = fs.existsSync(seedFile)
+        ? JSON.parse(fs.readFileSync(seedFile, 'utf-8')) as { documents?: unknown[] }
+        : null;
+      fs.writeFileSync(seedFile, JSON.stringify({ ...bill, ...(previous?.documents ? { documents: previous.documents } : {}) }, null, 2));
+      console.log(`  ${bill.bill_number ?? bill.id}: ${bill.title}${bill.enacted_as ? ` -> ${bill.enacted_as}` : ''}`);
+      parsedCount++;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  ERROR parsing ${file}: ${msg}`);
     }
   }
 
-  return { limit, skipFetch };
+  console.log(`\n  Bills parsed: ${parsedCount}\n`);
+}
+
+/**
+ * Extract the text of a gazette PDF with poppler's pdftotext.
+ */
+function pdfToText(file: string): string {
+  try {
+    return execFileSync('pdftotext', [file, '-'], { encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024 });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error('pdftotext not found (install poppler-utils) or supply the extracted .txt instead');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse Kenya Gazette issues in data/source/gazette/ into data/seed/gazette/.
+ *
+ * Issues are stored locally as <name>.pdf (text extracted with pdftotext) or
+ * already extracted <name>.txt, with an optional <name>.url holding the
+ * source URL. Each issue becomes one seed file listing its notices.
+ */
+function ingestGazette(): void {
+  fs.mkdirSync(GAZETTE_SOURCE_DIR, { recursive: true });
+  fs.mkdirSync(GAZETTE_SEED_DIR, { recursive: true });
+
+  const sourceFiles = fs.readdirSync(GAZETTE_SOURCE_DIR).filter(f => /\.(pdf|txt)$/i.test(f));
+  console.log(`\nParsing ${sourceFiles.length} Gazette issues...\n`);
+
+  let noticeCount = 0;
+  for (const file of sourceFiles) {
+    const filePath = path.join(GAZETTE_SOURCE_DIR, file);
+    const baseName = file.replace(/\.(pdf|txt)$/i, '');
+    const urlFile = path.join(GAZETTE_SOURCE_DIR, `${baseName}.url`);
+    const url = fs.existsSync(urlFile) ? fs.readFileSync(urlFile, 'utf-8').trim() : undefined;
+
+    try {
+      const text = /\.pdf$/i.test(file) ? pdfToText(filePath) : fs.readFileSync(filePath, 'utf-8');
+      const issue = parseGazetteText(text, url);
+      if (issue.notices.length === 0) {
+        console.log(`  WARNING ${file}: no Gazette notices found`);
+        continue;
+      }
+      if (!issue.issue_date) {
+        console.log(`  WARNING ${file}: issue date not found`);
+      }
+
+      const seedName = issue.volume && issue.issue_number
+        ? `vol-${issue.volume.toLowerCase()}-no-${issue.issue_number}`
+        : baseName;
+      fs.writeFileSync(path.join(GAZETTE_SEED_DIR, `${seedName}.json`), JSON.stringify(issue, null, 2));
+      console.log(`  ${seedName}: ${issue.notices.length} notices (${issue.issue_date ?? 'undated'})`);
+      noticeCount += issue.notices.length;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  ERROR parsing ${file}: ${msg}`);
+    }
+  }
+
+  console.log(`\n  Gazette notices parsed: ${noticeCount}\n`);
+}
+
+/**
+ * Carry provision history over from the previous seed.
+ *
+ * When a provision's wording differs from the last ingest, the old wording is
+ * appended to `versions` with `valid_to` set to the new wording's `valid_from`.
+ * Kenya Law serves only the current consolidation, so unless a curated date is
+ * already present the change is dated to the day it was first observed.
+ */
+function mergeProvisionHistory(previous: ParsedAct, parsed: ParsedAct, observedOn: string): number {
+  const previousByRef = new Map(previous.provisions.map(p => [p.provision_ref, p]));
+  let changed = 0;
+
+  for (const prov of parsed.provisions) {
+    const old = previousByRef.get(prov.provision_ref);
+    if (!old) continue;
+
+    prov.versions = old.versions ? [...old.versions] : undefined;
+    prov.valid_from = old.valid_from;
+
+    if (old.content.replace(/\s+/g, ' ').trim() !== prov.content.replace(/\s+/g, ' ').trim()) {
+      prov.versions = [
+        ...(prov.versions ?? []),
+        { title: old.title, content: old.content, valid_from: old.valid_from, valid_to: observedOn },
+      ];
+      prov.valid_from = observedOn;
+      changed++;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Fetch (or reuse the cached copy of) an Act's Kiswahili version and parse it.
+ * Returns null when the page cannot be fetched; the English seed is still written.
+ */
+async function fetchSwahiliVersion(act: ActIndexEntry, skipFetch: boolean): Promise<ParsedTranslation | null> {
+  const sourceFile = path.join(SOURCE_DIR, `${act.id}.sw.html`);
+  const sourceUrl = act.swahiliUrl!;
+  let html: string;
+
+  if (fs.existsSync(sourceFile) && skipFetch) {
+    html = fs.readFileSync(sourceFile, 'utf-8');
+  } else {
+    const result = await fetchWithRateLimit(sourceUrl);
+    if (result.status !== 200) {
+      console.log(`    -> Kiswahili version: HTTP ${result.status}, skipped`);
+      return null;
+    }
+    html = result.body;
+    fs.writeFileSync(sourceFile, html);
+  }
+
+  const translation = parseKenyaLawTranslationHtml(html, act, sourceUrl);
+  console.log(`    -> Kiswahili version: ${translation.provisions.length} provisions`);
+  return translation;
 }
 
 async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean): Promise<void> {
@@ -98,6 +354,15 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean): Pro
       }
 
       const parsed = parseKenyaLawHtml(html, act);
+      if (act.swahiliUrl) {
+        const translation = await fetchSwahiliVersion(act, skipFetch);
+        if (translation) parsed.translations = { sw: translation };
+      }
+      if (fs.existsSync(seedFile)) {
+        const previous = JSON.parse(fs.readFileSync(seedFile, 'utf-8')) as ParsedAct;
+        const changed = mergeProvisionHistory(previous, parsed, new Date().toISOString().slice(0, 10));
+        if (changed > 0) console.log(`    -> ${changed} provisions changed since last ingest (prior wording kept)`);
+      }
       fs.writeFileSync(seedFile, JSON.stringify(parsed, null, 2));
       totalProvisions += parsed.provisions.length;
       totalDefinitions += parsed.definitions.length;
@@ -137,7 +402,7 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean): Pro
 }
 
 async function main(): Promise<void> {
-  const { limit, skipFetch } = parseArgs();
+  const { limit, skipFetch, caseLaw, judgmentUrls, bills, gazette } = parseArgs();
 
   console.log('Kenya Law MCP -- Ingestion Pipeline');
   console.log('===================================\n');
@@ -148,7 +413,23 @@ async function main(): Promise<void> {
   if (limit) console.log(`  --limit ${limit}`);
   if (skipFetch) console.log(`  --skip-fetch`);
 
-  const acts = limit ? KEY_KENYAN_ACTS.slice(0, limit) : KEY_KENYAN_ACTS;
+  if (caseLaw || judgmentUrls.length > 0) {
+    await ingestCaseLaw(judgmentUrls);
+    return;
+  }
+
+  if (bills) {
+    ingestBills();
+    return;
+  }
+
+  if (gazette) {
+    ingestGazette();
+    return;
+  }
+
+  const allActs = [...KEY_KENYAN_ACTS, ...KEY_SUBSIDIARY_LEGISLATION];
+  const acts = limit ? allActs.slice(0, limit) : allActs;
   await fetchAndParseActs(acts, skipFetch);
 }
 
@@ -0,0 +1,207 @@
+/**
+ * Cross-references between provisions, extracted from statute text at build
+ * time: "section 25 of this Act", "section 2 of the Proceeds of Crime and
+ * Anti-Money Laundering Act", "Article 31 of the Constitution" and bare Act
+ * mentions, resolved against the titles of the Acts in the database. The same
+ * patterns find the provisions a judgment discusses.
+ */
+
+export type CrossReferenceType = 'references' | 'amended_by' | 'implements' | 'see_also';
+
+export interface ExtractedCrossReference {
+  targetDocumentId: string;
+  targetProvisionRef: string | null;
+  refType: CrossReferenceType;
+}
+
+export type JudicialTreatment = 'interpreted' | 'declared_unconstitutional' | 'suspended' | 'applied' | 'cited';
+
+/** Shaped like a curated treatment in a judgment seed, so the two merge. */
+export interface ExtractedJudicialTreatment {
+  document_id: string;
+  provision_ref: string;
+  treatment: JudicialTreatment;
+  context: string;
+}
+
+const ACT_NAME = "[A-Z][A-Za-z'’-]*(?:\\s+(?:[A-Z][A-Za-z'’-]*|and|of|the|for|on|in))*\\s+Act";
+const PINPOINT = '\\d+[A-Z]{0,2}(?:\\([0-9a-z]+\\))*';
+// Later items may be a bare subsection: "section 19(3) and (4) of the Exchequer and Audit Act"
+const NUMBER_LIST = `${PINPOINT}(?:\\s*(?:,|and|or|to)\\s*(?:${PINPOINT}|(?:\\([0-9a-z]+\\))+))*`;
+
+/** Section numbers in a matched list, without their subsections. */
+function sectionNumbers(list: string): string[] {
+  return list.replace(/\([^)]*\)/g, '').match(/\d+[A-Z]{0,2}\b/g) ?? [];
+}
+
+/**
+ * Normalise an Act title for matching: lowercase, no years, chapter numbers or
+ * punctuation, and no leading article ("the Data Protection Act, 2019" ->
+ * "data protection act").
+ */
+export function normalizeActTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/\((?:cap\.?|no\.?)[^)]*\)/g, ' ')
+    .replace(/\b\d{4}\b/g, ' ')
+    .replace(/[^a-z]+/g, ' ')
+    .trim()
+    .replace(/^the\s+/, '');
+}
+
+export interface ActTitleIndex {
+  /** Normalised title -> document ID */
+  byTitle: Map<string, string>;
+  /** Document ID -> year in the title, if any */
+  yearById: Map<string, string | null>;
+}
+
+/**
+ * Resolve an Act name as written in statute text to a document ID.
+ * Leading words are dropped until a known title matches, so
+ * "Cabinet Secretary under the Companies Act" still resolves. The text that
+ * follows the name is checked so "the Companies Act (Cap. 486)" or
+ * "the Companies Act, 1948" do not resolve to the Companies Act 2015.
+ */
+export function resolveActName(name: string, following: string, index: ActTitleIndex): string | null {
+  const words = normalizeActTitle(name).split(' ');
+  for (let i = 0; i < words.length - 1; i++) {
+    const id = index.byTitle.get(words.slice(i).join(' '));
+    if (!id) continue;
+
+    const titleYear = index.yearById.get(id) ?? null;
+    const citedYear = following.match(/^,?\s*(\d{4})\b/)?.[1];
+    if (citedYear && titleYear && citedYear !== titleYear) return null;
+    if (titleYear && /^\s*\(\s*Cap\b/i.test(following)) return null;
+    return id;
+  }
+  return null;
+}
+
+/**
+ * Extract references to other provisions and statutes from provision text:
+ *   - "section 25", "sections 22, 23 and 24", "section 83(3) of this Act"  -> same Act
+ *   - "section 2 of the Proceeds of Crime and Anti-Money Laundering Act"    -> named Act
+ *   - "Article 31 of the Constitution"                                       -> Constitution
+ *   - "the Evidence Act", "the Companies Act, 2015"                          -> named Act
+ * A section of another instrument ("section 107 of the Penal Code (Cap. 63)",
+ * "section 114 of that Code") is not a reference to the same Act and is skipped.
+ */
+export function extractCrossReferences(
+  text: string,
+  sourceDocumentId: string,
+  titleIndex: ActTitleIndex,
+  constitutionId: string | null,
+): ExtractedCrossReference[] {
+  if (!text || text.trim().length === 0) return [];
+
+  const refs: ExtractedCrossReference[] = [];
+  const seen = new Set<string>();
+  const add = (targetDocumentId: string, targetProvisionRef: string | null) => {
+    const key = `${targetDocumentId}:${targetProvisionRef ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    refs.push({ targetDocumentId, targetProvisionRef, refType: 'references' });
+  };
+
+  const pinpointPattern = new RegExp(
+    `\\b([Ss]ections?|Articles?)\\s+(${NUMBER_LIST})(?:\\s+of\\s+(?:the\\s+)?(this Act|Constitution|${ACT_NAME}))?`,
+    'g',
+  );
+
+  const consumed: [number, number][] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pinpointPattern.exec(text)) !== null) {
+    const isArticle = /^Article/.test(match[1]);
+    const qualifier = match[3];
+
+    const end = match.index + match[0].length;
+    if (!qualifier && /^\s+of\s+(?:that\s+[A-Z]|(?:the\s+)?(?!Act\b)[A-Z])/.test(text.slice(end))) continue;
+
+    let targetDocumentId: string | null;
+    if (!qualifier || qualifier === 'this Act') {
+      targetDocumentId = isArticle && sourceDocumentId !== constitutionId ? null : sourceDocumentId;
+    } else if (qualifier === 'Constitution') {
+      targetDocumentId = constitutionId;
+    } else {
+      targetDocumentId = resolveActName(qualifier, text.slice(end, end + 20), titleIndex);
+    }
+    if (!targetDocumentId) continue;
+
+    consumed.push([match.index, match.index + match[0].length]);
+    for (const num of sectionNumbers(match[2])) {
+      add(targetDocumentId, `s${num}`);
+    }
+  }
+
+  // Bare Act mentions not already captured as a pinpoint qualifier
+  const actPattern = new RegExp(`\\b${ACT_NAME}\\b`, 'g');
+  while ((match = actPattern.exec(text)) !== null) {
+    const start = match.index;
+    if (consumed.some(([from, to]) => start >= from && start < to)) continue;
+    const end = start + match[0].length;
+    const targetDocumentId = resolveActName(match[0], text.slice(end, end + 20), titleIndex);
+    if (targetDocumentId && targetDocumentId !== sourceDocumentId) {
+      add(targetDocumentId, null);
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Classify how a judgment treats a provision from the sentence that cites it.
+ * The strongest treatment wins: a declaration of unconstitutionality outranks
+ * a suspension, which outranks interpretation and application.
+ */
+export function classifyTreatment(context: string): JudicialTreatment {
+  if (/\b(?:unconstitutional|null and void|constitutionally invalid)\b/i.test(context)) return 'declared_unconstitutional';
+  if (/\b(?:suspend\w*|conservatory orders?)\b/i.test(context)) return 'suspended';
+  if (/\b(?:interpret\w*|constru\w*|meaning of)\b/i.test(context)) return 'interpreted';
+  if (/\b(?:appl(?:y|ies|ied|ying)|convicted under|charged under)\b/i.test(context)) return 'applied';
+  return 'cited';
+}
+
+/**
+ * Extract provisions discussed in a judgment. Only references qualified by a
+ * statute ("section 22 of the Computer Misuse and Cybercrimes Act",
+ * "Article 31 of the Constitution") are taken, since a bare "section 22" in a
+ * judgment could refer to any Act.
+ */
+export function extractJudicialTreatments(
+  text: string,
+  titleIndex: ActTitleIndex,
+  constitutionId: string | null,
+): ExtractedJudicialTreatment[] {
+  const treatments: ExtractedJudicialTreatment[] = [];
+  const seen = new Set<string>();
+
+  const pattern = new RegExp(
+    `\\b([Ss]ections?|Articles?)\\s+(${NUMBER_LIST})\\s+of\\s+(?:the\\s+)?(Constitution|${ACT_NAME})`,
+    'g',
+  );
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const documentId = match[3] === 'Constitution'
+      ? constitutionId
+      : resolveActName(match[3], text.slice(end, end + 20), titleIndex);
+    if (!documentId) continue;
+
+    const sentenceStart = Math.max(text.lastIndexOf('.', match.index) + 1, match.index - 300);
+    const sentenceEndDot = text.indexOf('.', end);
+    const sentenceEnd = sentenceEndDot === -1 ? Math.min(text.length, end + 300) : Math.min(sentenceEndDot + 1, end + 300);
+    const context = text.slice(sentenceStart, sentenceEnd).replace(/\s+/g, ' ').trim();
+    const treatment = classifyTreatment(context);
+
+    for (const num of sectionNumbers(match[2])) {
+      const key = `${documentId}:s${num}:${treatment}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      treatments.push({ document_id: documentId, provision_ref: `s${num}`, treatment, context });
+    }
+  }
+
+  return treatments;
+}
@@ -0,0 +1,222 @@
+/**
+ * Build-time training of the provision embedding model.
+ *
+ * Latent semantic analysis: a TF-IDF term-provision matrix reduced by a
+ * truncated SVD (randomised range finder with power iterations, then a Jacobi
+ * eigensolve of the small projected matrix). Runs on the CPU in a few seconds
+ * for the whole corpus and is deterministic, so rebuilding from the same seeds
+ * yields the same vectors. Query-time embedding lives in src/utils/embeddings.ts.
+ */
+
+import { embeddingTokens, termFrequencies, termWeight } from '../../src/utils/embeddings.js';
+
+export interface EmbeddingModel {
+  dimensions: number;
+  terms: { term: string; idf: number; vector: Float32Array }[];
+  /** One vector per input text, in input order. */
+  documents: Float32Array[];
+}
+
+/** A sparse matrix row: column indexes and values. */
+interface SparseRow {
+  columns: number[];
+  values: number[];
+}
+
+const OVERSAMPLING = 16;
+const POWER_ITERATIONS = 3;
+
+/** Seeded PRNG (mulberry32) so the projection, and hence the model, is reproducible. */
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A (rows × cols sparse) times X (cols × width dense, row-major arrays). */
+function multiply(rows: SparseRow[], x: Float64Array[], width: number): Float64Array[] {
+  return rows.map(row => {
+    const out = new Float64Array(width);
+    for (let i = 0; i < row.columns.length; i++) {
+      const xRow = x[row.columns[i]];
+      const value = row.values[i];
+      for (let j = 0; j < width; j++) out[j] += value * xRow[j];
+    }
+    return out;
+  });
+}
+
+/** Aᵀ (cols × rows) times Y (rows × width dense). */
+function multiplyTransposed(rows: SparseRow[], cols: number, y: Float64Array[], width: number): Float64Array[] {
+  const out = Array.from({ length: cols }, () => new Float64Array(width));
+  rows.forEach((row, r) => {
+    const yRow = y[r];
+    for (let i = 0; i < row.columns.length; i++) {
+      const target = out[row.columns[i]];
+      const value = row.values[i];
+      for (let j = 0; j < width; j++) target[j] += value * yRow[j];
+    }
+  });
+  return out;
+}
+
+/** Orthonormalise the columns of a row-major matrix in place (modified Gram-Schmidt). */
+function orthonormalize(m: Float64Array[], width: number): void {
+  for (let j = 0; j < width; j++) {
+    for (let k = 0; k < j; k++) {
+      let dot = 0;
+      for (const row of m) dot += row[j] * row[k];
+      for (const row of m) row[j] -= dot * row[k];
+    }
+    let norm = 0;
+    for (const row of m) norm += row[j] * row[j];
+    norm = Math.sqrt(norm);
+    for (const row of m) row[j] = norm > 1e-12 ? row[j] / norm : 0;
+  }
+}
+
+/**
+ * Eigen-decomposition of a small symmetric matrix by cyclic Jacobi rotations.
+ * Returns eigenvalues and eigenvectors (as columns), largest eigenvalue first.
+ */
+function symmetricEigen(input: Float64Array[]): { values: number[]; vectors: Float64Array[] } {
+  const n = input.length;
+  const a = input.map(row => Float64Array.from(row));
+  const v = Array.from({ length: n }, (_, i) => {
+    const row = new Float64Array(n);
+    row[i] = 1;
+    return row;
+  });
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: v.map(row => Float64Array.from(order, i => row[i])),
+  };
+}
+
+/**
+ * Train an LSA model on provision texts. Words must occur in at least
+ * minDocumentFrequency texts, and in no more than half of them, to be indexed.
+ */
+export function trainEmbeddingModel(
+  texts: string[],
+  dimensions: number,
+  minDocumentFrequency = 2,
+): EmbeddingModel {
+  const counts = texts.map(text => termFrequencies(embeddingTokens(text)));
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of counts) {
+    for (const term of doc.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const vocabulary = [...documentFrequency.entries()]
+    .filter(([, df]) => df >= minDocumentFrequency && df <= texts.length / 2)
+    .map(([term]) => term)
+    .sort();
+  const termIndex = new Map(vocabulary.map((term, i) => [term, i]));
+  const idf = vocabulary.map(term => Math.log(texts.length / documentFrequency.get(term)!));
+
+  // Rows are L2-normalised so long provisions do not dominate the factorisation
+  const rows: SparseRow[] = counts.map(doc => {
+    const row: SparseRow = { columns: [], values: [] };
+    for (const [term, tf] of doc) {
+      const index = termIndex.get(term);
+      if (index === undefined) continue;
+      row.columns.push(index);
+      row.values.push(termWeight(tf, idf[index]));
+    }
+    const norm = Math.sqrt(row.values.reduce((sum, value) => sum + value * value, 0));
+    if (norm > 0) row.values = row.values.map(value => value / norm);
+    return row;
+  });
+
+  const cols = vocabulary.length;
+  const k = Math.min(dimensions, cols, texts.length);
+  const width = Math.min(k + OVERSAMPLING, cols, texts.length);
+
+  // Range finder: Q spans the dominant column space of A
+  const next = random(0x4b454e59);
+  const omega = Array.from({ length: cols }, () => Float64Array.from({ length: width }, () => next() * 2 - 1));
+  let q = multiply(rows, omega, width);
+  orthonormalize(q, width);
+  for (let i = 0; i < POWER_ITERATIONS; i++) {
+    const z = multiplyTransposed(rows, cols, q, width);
+    orthonormalize(z, width);
+    q = multiply(rows, z, width);
+    orthonormalize(q, width);
+  }
+
+  // Bᵀ = Aᵀ Q; the eigenvectors W of B Bᵀ give the right singular vectors V = Bᵀ W Σ⁻¹
+  const bt = multiplyTransposed(rows, cols, q, width);
+  const gram = Array.from({ length: width }, (_, i) => {
+    const row = new Float64Array(width);
+    for (let j = 0; j < width; j++) {
+      let sum = 0;
+      for (const b of bt) sum += b[i] * b[j];
+      row[j] = sum;
+    }
+    return row;
+  });
+  const { values, vectors } = symmetricEigen(gram);
+  const sigma = values.slice(0, k).map(value => Math.sqrt(Math.max(value, 0)));
+
+  const termVectors = bt.map(b => {
+    const vector = new Float64Array(k);
+    for (let j = 0; j < k; j++) {
+      if (sigma[j] === 0) continue;
+      let sum = 0;
+      for (let i = 0; i < width; i++) sum += b[i] * vectors[i][j];
+      vector[j] = sum / sigma[j];
+    }
+    return vector;
+  });
+
+  // A provision's vector is its projection onto V, the same sum a query gets
+  const documents = multiply(rows, termVectors, k).map(vector => Float32Array.from(vector));
+
+  return {
+    dimensions: k,
+    terms: vocabulary.map((term, i) => ({ term, idf: idf[i], vector: Float32Array.from(termVectors[i]) })),
+    documents,
+  };
+}
@@ -12,14 +12,19 @@
  *   - akn-intro / akn-content / akn-wrapUp: structural wrappers
  */
 
+export type LegislationType = 'statute' | 'subsidiary_legislation';
+
 export interface ActIndexEntry {
   id: string;
+  /** Defaults to 'statute'; regulations, rules and orders are 'subsidiary_legislation'. */
+  type?: LegislationType;
   title: string;
   titleEn: string;
   shortName: string;
   status: 'in_force' | 'amended' | 'repealed' | 'partially_suspended' | 'not_yet_in_force';
-  issuedDate: string;
-  inForceDate: string;
+  /** Omitted where the gazettal/commencement date has not been verified. */
+  issuedDate?: string;
+  inForceDate?: string;
   /** AKN URL on new.kenyalaw.org (e.g. https://new.kenyalaw.org/akn/ke/act/2019/24/) */
   url: string;
   /** Act number used in AKN URI (e.g. "24" for act/2019/24) */
@@ -27,6 +32,63 @@ export interface ActIndexEntry {
   /** Year used in AKN URI */
   aknYear: string;
   description?: string;
+  /** Curated provision-level status (court suspensions, Legal Notices). */
+  provisionStatus?: ParsedProvisionStatus[];
+  /** Curated commencement instruments, for Acts brought into force in stages. */
+  commencements?: ParsedCommencement[];
+  /** Curated amendment events with dates and amending Act titles. */
+  amendments?: ParsedAmendment[];
+  /** AKN URL of the Kiswahili version, where Kenya Law publishes one. */
+  swahiliUrl?: string;
+  /** Subsidiary legislation: the Act it was made under. */
+  parentActId?: string;
+  /** Subsidiary legislation: enabling sections of the parent Act (e.g. ["s71"]). */
+  enablingSections?: string[];
+  /** Subsidiary legislation: e.g. "Legal Notice No. 263 of 2021". */
+  legalNotice?: string;
+}
+
+export interface ParsedProvisionStatus {
+  provision_refs: string[];
+  status: 'suspended' | 'repealed' | 'not_commenced' | 'spent';
+  authority_type: 'court_order' | 'legal_notice' | 'statute';
+  authority: string;
+  effective_date?: string;
+  end_date?: string;
+  note?: string;
+}
+
+export interface ParsedCommencement {
+  /** Provision refs or ranges ("s1-s10"); omitted for the whole Act, or every provision not listed elsewhere. */
+  provisions?: string[];
+  commencement_date: string;
+  /** e.g. "Legal Notice No. 12 of 2020"; omitted when the Act commenced on its own terms. */
+  legal_notice?: string;
+  note?: string;
+}
+
+export type AmendmentChangeType = 'amended' | 'inserted' | 'substituted' | 'deleted' | 'repealed';
+
+export interface ParsedAmendment {
+  /** Provisions amended; omitted for amendments to the Act as a whole. */
+  provision_refs?: string[];
+  /** As cited in Kenya Law annotations (e.g. "Act No. 18 of 2018"), so it merges with extracted events. */
+  amending_instrument: string;
+  /** e.g. "Statute Law (Miscellaneous Amendments) Act, 2018" */
+  amending_title?: string;
+  amending_provision?: string;
+  date?: string;
+  change_type: AmendmentChangeType;
+  note?: string;
+}
+
+export type TranslationLanguage = 'sw';
+
+/** Provision text in another language, keyed to the English provision_ref. */
+export interface ParsedTranslation {
+  /** Kenya Law page the text was taken from. */
+  source_url: string;
+  provisions: { provision_ref: string; title?: string; content: string }[];
 }
 
 export interface ParsedProvision {
@@ -35,6 +97,30 @@ export interface ParsedProvision {
   section: string;
   title: string;
   content: string;
+  /** Date the current wording took effect; absent means the Act's in_force_date. */
+  valid_from?: string;
+  /** Superseded wordings carried over from earlier ingests, oldest first. */
+  versions?: ParsedProvisionVersion[];
+  /** Subsection/paragraph tree; the root carries the section's lead-in text. */
+  structure?: ProvisionNode;
+}
+
+/**
+ * One numbered unit of a provision: subsection (1), paragraph (a),
+ * subparagraph (i) or item (A). `num` is stored without brackets.
+ */
+export interface ProvisionNode {
+  num: string;
+  /** Text of this unit up to its first child unit. */
+  text: string;
+  children?: ProvisionNode[];
+}
+
+export interface ParsedProvisionVersion {
+  title?: string;
+  content: string;
+  valid_from?: string;
+  valid_to: string;
 }
 
 export interface ParsedDefinition {
@@ -45,17 +131,24 @@ export interface ParsedDefinition {
 
 export interface ParsedAct {
   id: string;
-  type: 'statute';
+  type: LegislationType;
   title: string;
   title_en: string;
   short_name: string;
   status: 'in_force' | 'amended' | 'repealed' | 'partially_suspended' | 'not_yet_in_force';
-  issued_date: string;
-  in_force_date: string;
+  issued_date?: string;
+  in_force_date?: string;
   url: string;
   description?: string;
   provisions: ParsedProvision[];
   definitions: ParsedDefinition[];
+  provision_status?: ParsedProvisionStatus[];
+  commencements?: ParsedCommencement[];
+  amendments?: ParsedAmendment[];
+  translations?: Partial<Record<TranslationLanguage, ParsedTranslation>>;
+  parent_document_id?: string;
+  enabling_provisions?: string[];
+  legal_notice?: string;
 }
 
 /**
@@ -153,9 +246,11 @@ export function parseKenyaLawHtml(html: string, act: ActIndexEntry): ParsedAct {
     const chapter = extractChapter(start.id);
 
     // For the provision reference, use "s" prefix for sections (standard for Acts),
-    // "art" prefix only if the container id starts with "art"
+    // "reg" for regulations, "art" prefix only if the container id starts with "art"
     const isArticle = start.id.includes('__art_');
-    const provisionRef = isArticle ? `art${sectionNum}` : `s${sectionNum}`;
+    const provisionRef = isArticle
+      ? `art${sectionNum}`
+      : act.type === 'subsidiary_legislation' ? `reg${sectionNum}` : `s${sectionNum}`;
 
     // Extract the full text content, stripping HTML tags
     // Remove the heading we already captured to avoid duplication
@@ -163,12 +258,14 @@ export function parseKenyaLawHtml(html: string, act: ActIndexEntry): ParsedAct {
     const content = stripHtml(contentHtml);
 
     if (content.length > 10) {
+      const structure = extractStructure(contentHtml, start.id) ?? splitProvisionText(content);
       provisions.push({
         provision_ref: provisionRef,
         chapter,
         section: sectionNum,
         title,
         content: content.substring(0, 12000), // Cap at 12K chars per section
+        ...(structure ? { structure } : {}),
       });
     }
 
@@ -180,7 +277,7 @@ export function parseKenyaLawHtml(html: string, act: ActIndexEntry): ParsedAct {
 
   return {
     id: act.id,
-    type: 'statute',
+    type: act.type ?? 'statute',
     title: act.title,
     title_en: act.titleEn,
     short_name: act.shortName,
@@ -191,9 +288,155 @@ export function parseKenyaLawHtml(html: string, act: ActIndexEntry): ParsedAct {
     description: act.description,
     provisions,
     definitions,
+    ...(act.provisionStatus ? { provision_status: act.provisionStatus } : {}),
+    ...(act.commencements ? { commencements: act.commencements } : {}),
+    ...(act.amendments ? { amendments: act.amendments } : {}),
+    ...(act.parentActId
+      ? {
+        parent_document_id: act.parentActId,
+        enabling_provisions: act.enablingSections ?? [],
+        legal_notice: act.legalNotice,
+      }
+      : {}),
   };
 }
 
+/**
+ * Build the subsection/paragraph tree of a section from its AKN markup.
+ *
+ * Nested units carry ids that encode their path, e.g.
+ *   part_I__sec_26__subsec_1__para_b
+ * so the parent of each unit is its id minus the last segment. A unit's own
+ * text runs from its start tag to the next unit's start tag.
+ */
+function extractStructure(sectionHtml: string, sectionId: string): ProvisionNode | null {
+  const unitPattern = /<\w+\s+class="akn-(?:subsection|paragraph|subparagraph|item|point)"[^>]*?\sid="([^"]+)"[^>]*>/g;
+  const starts: { id: string; index: number; end: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = unitPattern.exec(sectionHtml)) !== null) {
+    if (match[1].startsWith(`${sectionId}__`)) {
+      starts.push({ id: match[1], index: match.index, end: match.index + match[0].length });
+    }
+  }
+  if (starts.length === 0) return null;
+
+  const root: ProvisionNode = { num: '', text: stripHtml(sectionHtml.substring(0, starts[0].index)) };
+  const nodesById = new Map<string, ProvisionNode>([[sectionId, root]]);
+
+  for (let i = 0; i < starts.length; i++) {
+    const chunk = sectionHtml.substring(starts[i].end, i + 1 < starts.length ? starts[i + 1].index : sectionHtml.length);
+    const numMatch = chunk.match(/<span class="akn-num"[^>]*>\s*\(?([^)<\s]+)\)?\s*<\/span>/);
+    const num = numMatch ? numMatch[1].replace(/\.$/, '') : starts[i].id.split('_').pop() ?? '';
+    const node: ProvisionNode = {
+      num,
+      text: stripHtml(numMatch ? chunk.replace(numMatch[0], '') : chunk),
+    };
+
+    const parentId = starts[i].id.substring(0, starts[i].id.lastIndexOf('__'));
+    const parent = nodesById.get(parentId) ?? root;
+    parent.children = [...(parent.children ?? []), node];
+    nodesById.set(starts[i].id, node);
+  }
+
+  return root;
+}
+
+type NumberingKind = 'numeric' | 'alpha' | 'roman' | 'upper';
+
+const ROMAN_NUMERALS = [
+  'i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix', 'x',
+  'xi', 'xii', 'xiii', 'xiv', 'xv', 'xvi', 'xvii', 'xviii', 'xix', 'xx',
+];
+
+const FIRST_OF_KIND: [string, NumberingKind][] = [['1', 'numeric'], ['a', 'alpha'], ['i', 'roman'], ['A', 'upper']];
+
+function nextLetter(letter: string): string {
+  return String.fromCharCode(letter.charCodeAt(0) + 1);
+}
+
+/**
+ * Whether `candidate` can follow `last` within one level of numbering.
+ * Allows inserted units such as (2A) after (2) and (ba) after (b).
+ */
+function followsInSequence(kind: NumberingKind, last: string, candidate: string): boolean {
+  switch (kind) {
+    case 'numeric': {
+      const a = last.match(/^(\d+)([A-Z]*)$/);
+      const b = candidate.match(/^(\d+)([A-Z]*)$/);
+      if (!a || !b) return false;
+      if (Number(b[1]) === Number(a[1]) + 1) return b[2] === '';
+      return b[1] === a[1] && b[2].length === 1 && b[2] === (a[2] ? nextLetter(a[2]) : 'A');
+    }
+    case 'alpha':
+      if (!/^[a-z]{1,2}$/.test(candidate)) return false;
+      if (last.length === 1) return candidate === nextLetter(last) || candidate === `${last}a`;
+      return candidate === `${last[0]}${nextLetter(last[1])}` || candidate === nextLetter(last[0]);
+    case 'roman':
+      return ROMAN_NUMERALS.indexOf(candidate) === ROMAN_NUMERALS.indexOf(last) + 1 && ROMAN_NUMERALS.includes(last);
+    case 'upper':
+      return /^[A-Z]$/.test(candidate) && candidate === nextLetter(last);
+  }
+}
+
+/**
+ * Recover the subsection/paragraph tree from flattened provision text.
+ *
+ * A bracketed number only opens a unit when it follows a clause boundary
+ * (start, "—", ":", ";", ".", "or", "and") and continues or opens a numbering
+ * sequence, so inline references like "paragraphs (a), (b) or (c)" stay text.
+ * Returns null when the text has no units or restarts a list ambiguously.
+ */
+export function splitProvisionText(content: string): ProvisionNode | null {
+  const root: ProvisionNode = { num: '', text: '' };
+  const stack: { kind: NumberingKind; last: string; node: ProvisionNode }[] = [];
+  const boundaries: { node: ProvisionNode; start: number; textStart: number }[] = [];
+  const markerPattern = /\((\d+[A-Z]?|[a-z]{1,5}|[A-Z])\)\s/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = markerPattern.exec(content)) !== null) {
+    const before = content.substring(0, match.index).trimEnd();
+    if (before.length > 0 && !/(?:[—–:;.]|\b(?:or|and))$/.test(before)) continue;
+
+    const num = match[1];
+    let depth = -1;
+    let kind: NumberingKind | undefined;
+    for (let d = stack.length - 1; d >= 0; d--) {
+      if (followsInSequence(stack[d].kind, stack[d].last, num)) {
+        depth = d;
+        kind = stack[d].kind;
+        break;
+      }
+    }
+    if (depth === -1) {
+      const opens = FIRST_OF_KIND.find(([first, k]) => first === num && !stack.some(s => s.kind === k));
+      if (opens) {
+        depth = stack.length;
+        kind = opens[1];
+      } else if (FIRST_OF_KIND.some(([first]) => first === num)) {
+        return null;
+      } else {
+        continue;
+      }
+    }
+
+    stack.length = depth;
+    const node: ProvisionNode = { num, text: '' };
+    const parent = depth === 0 ? root : stack[depth - 1].node;
+    parent.children = [...(parent.children ?? []), node];
+    stack.push({ kind: kind!, last: num, node });
+    boundaries.push({ node, start: match.index, textStart: match.index + match[0].length });
+  }
+
+  if (boundaries.length === 0) return null;
+
+  root.text = content.substring(0, boundaries[0].start).trim();
+  for (let i = 0; i < boundaries.length; i++) {
+    const end = i + 1 < boundaries.length ? boundaries[i + 1].start : content.length;
+    boundaries[i].node.text = content.substring(boundaries[i].textStart, end).trim();
+  }
+  return root;
+}
+
 /**
  * Extract term definitions from an Interpretation section.
  * Definitions in AKN HTML appear as akn-p elements within akn-intro,
@@ -226,6 +469,377 @@ function extractDefinitions(
   }
 }
 
+export interface ParsedJudgment {
+  case_id: string;
+  neutral_citation?: string;
+  case_number?: string;
+  title: string;
+  parties: string[];
+  court: string;
+  court_code?: string;
+  decision_date?: string;
+  judges: string[];
+  summary?: string;
+  full_text: string;
+  url?: string;
+}
+
+/**
+ * Court codes used in Kenyan neutral citations, e.g. "[2023] KEHC 1234 (KLR)".
+ */
+export const KENYAN_COURT_CODES: Record<string, string> = {
+  KESC: 'Supreme Court',
+  KECA: 'Court of Appeal',
+  KEHC: 'High Court',
+  KEELRC: 'Employment and Labour Relations Court',
+  KEELC: 'Environment and Land Court',
+  KEIC: 'Industrial Court',
+  KEMC: "Magistrate's Court",
+  KEKC: "Kadhis' Court",
+  KECMC: 'Court Martial',
+  KETAT: 'Tax Appeals Tribunal',
+};
+
+const NEUTRAL_CITATION_PATTERN = /\[(\d{4})\]\s+(KE[A-Z]+)\s+(\d+)(?:\s*\(([A-Z]+)\))?/;
+
+/**
+ * Parse a Kenyan neutral citation such as "[2023] KEHC 1234 (KLR)".
+ */
+export function parseNeutralCitation(
+  text: string,
+): { citation: string; year: string; courtCode: string; number: string } | null {
+  const match = text.match(NEUTRAL_CITATION_PATTERN);
+  if (!match) return null;
+  return { citation: match[0], year: match[1], courtCode: match[2], number: match[3] };
+}
+
+/**
+ * Parse the Kiswahili version of an Act. Kenya Law marks it up with the same
+ * AKN section ids as the English version, so provisions line up by
+ * provision_ref; definitions are left to the English text.
+ */
+export function parseKenyaLawTranslationHtml(html: string, act: ActIndexEntry, sourceUrl: string): ParsedTranslation {
+  return {
+    source_url: sourceUrl,
+    provisions: parseKenyaLawHtml(html, act).provisions.map(p => ({
+      provision_ref: p.provision_ref,
+      title: p.title || undefined,
+      content: p.content,
+    })),
+  };
+}
+
+/**
+ * Read the document details list on a new.kenyalaw.org judgment page.
+ * Labels are rendered as <dt>Label</dt><dd>Value</dd> pairs.
+ */
+function extractDetails(html: string): Map<string, string> {
+  const details = new Map<string, string>();
+  const pattern = /<dt[^>]*>([\s\S]*?)<\/dt>\s*<dd[^>]*>([\s\S]*?)<\/dd>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    details.set(stripHtml(match[1]).toLowerCase(), stripHtml(match[2]));
+  }
+  return details;
+}
+
+/**
+ * Inner HTML of the first <div> with the given class, up to its own closing
+ * tag: nested divs are counted, so the page's sidebar and footer are left out.
+ */
+function extractDivContent(html: string, className: string): string | null {
+  const open = new RegExp(`<div\\s+class="${className}"[^>]*>`).exec(html);
+  if (!open) return null;
+
+  const start = open.index + open[0].length;
+  const tags = /<(\/?)div\b[^>]*>/g;
+  tags.lastIndex = start;
+  let depth = 1;
+  let tag: RegExpExecArray | null;
+  while ((tag = tags.exec(html)) !== null) {
+    depth += tag[1] ? -1 : 1;
+    if (depth === 0) return html.slice(start, tag.index);
+  }
+  return html.slice(start);
+}
+
+/**
+ * Parse a new.kenyalaw.org AKN judgment page.
+ *
+ * Judgment pages wrap the decision in <div class="akn-judgment"> with an
+ * akn-header (parties, court, coram) and akn-judgmentBody (reasons, orders).
+ * Metadata (citation, court, judges, judgment date, case number) comes from
+ * the document details list rendered beside the text.
+ */
+export function parseKenyaLawJudgmentHtml(html: string, url?: string): ParsedJudgment {
+  const details = extractDetails(html);
+
+  const titleMatch = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/);
+  const heading = titleMatch ? stripHtml(titleMatch[1]) : '';
+
+  const neutral = parseNeutralCitation(details.get('citation') ?? heading);
+  const title = heading.replace(NEUTRAL_CITATION_PATTERN, '').replace(/\s*\(\s*\)\s*$/, '').trim();
+
+  const body = extractDivContent(html, 'akn-judgmentBody') ?? extractDivContent(html, 'akn-judgment');
+  const fullText = stripHtml(body ?? html);
+
+  const courtCode = neutral?.courtCode;
+  const court = details.get('court') ?? (courtCode ? KENYAN_COURT_CODES[courtCode] : undefined) ?? 'Unknown';
+
+  const judges = (details.get('judges') ?? details.get('judge') ?? '')
+    .split(/\s*(?:,|;|\band\b)\s*/)
+    .map(j => j.trim())
+    .filter(j => j.length > 0);
+
+  const parties = title
+    .split(/\s+(?:v\.?|vs\.?|versus)\s+/i)
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+
+  const rawDate = details.get('judgment date') ?? details.get('date');
+  const parsedDate = rawDate ? new Date(rawDate) : null;
+  const decisionDate = parsedDate && !isNaN(parsedDate.getTime())
+    ? parsedDate.toISOString().slice(0, 10)
+    : undefined;
+
+  const caseId = neutral
+    ? `${neutral.courtCode.toLowerCase()}-${neutral.year}-${neutral.number}`
+    : title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 80);
+
+  return {
+    case_id: caseId,
+    neutral_citation: neutral?.citation,
+    case_number: details.get('case number'),
+    title: title || caseId,
+    parties,
+    court,
+    court_code: courtCode,
+    decision_date: decisionDate,
+    judges,
+    summary: details.get('summary') ?? details.get('flynote'),
+    full_text: fullText,
+    url,
+  };
+}
+
+export interface ParsedBill {
+  id: string;
+  title: string;
+  bill_number?: string;
+  house?: 'National Assembly' | 'Senate';
+  gazette_supplement?: string;
+  published_date?: string;
+  url?: string;
+  description?: string;
+  enacted_as?: string;
+  content: string;
+  memorandum?: { text: string; date?: string };
+}
+
+/** Sidecar metadata for a Bill text file (data/source/bills/<name>.json). */
+export interface BillSourceMeta {
+  url?: string;
+  published_date?: string;
+  enacted_as?: string;
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/**
+ * Parse dates written the way Parliament signs Bills off, e.g. "3rd July, 2019".
+ */
+function parseLongDate(text: string): string | undefined {
+  const match = text.match(/(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]+),?\s+(\d{4})/);
+  if (!match) return undefined;
+  const month = MONTHS.indexOf(match[2].toLowerCase());
+  if (month === -1) return undefined;
+  return `${match[3]}-${String(month + 1).padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+export function toTitleCase(text: string): string {
+  return text.toLowerCase()
+    .replace(/\b([a-z])/g, c => c.toUpperCase())
+    .replace(/\b(And|Of|The|For|In|On|To)\b/g, (w, _m, offset) => (offset === 0 ? w : w.toLowerCase()));
+}
+
+/**
+ * Parse the text of a published Bill (as extracted from its Kenya Gazette
+ * Supplement PDF) into the Bill body and its Memorandum of Objects and Reasons.
+ *
+ * Recognises the supplement header ("Kenya Gazette Supplement No. 134
+ * (National Assembly Bills No. 44)"), the issue date ("NAIROBI, 5th July,
+ * 2019"), the short title ("THE DATA PROTECTION
+ * BILL, 2019"), the long title ("A Bill for AN ACT of Parliament to ...") and
+ * the sponsor's "Dated the ..." sign-off closing the memorandum.
+ */
+export function parseBillText(text: string, meta: BillSourceMeta = {}): ParsedBill {
+  const flat = text.replace(/\s+/g, ' ').trim();
+
+  const titleMatch = flat.match(/\bTHE ([A-Z][A-Z ,()'’-]*? BILL),? (\d{4})\b/);
+  const title = titleMatch
+    ? `${toTitleCase(titleMatch[1].replace(/,$/, ''))}, ${titleMatch[2]}`
+    : flat.slice(0, 80);
+
+  const numberMatch = flat.match(/\((National Assembly|Senate) Bills? No\.?\s*(\d+)(?: of (\d{4}))?\)/i);
+  const house = numberMatch
+    ? (numberMatch[1].toLowerCase() === 'senate' ? 'Senate' : 'National Assembly')
+    : undefined;
+  const year = numberMatch?.[3] ?? titleMatch?.[2];
+  const billNumber = numberMatch
+    ? `${house} Bills No. ${numberMatch[2]}${year ? ` of ${year}` : ''}`
+    : undefined;
+
+  const supplementMatch = flat.match(/Kenya Gazette Supplement No\.?\s*(\d+)/i);
+  const issueMatch = flat.match(/\bNAIROBI,\s*(\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]+,?\s+\d{4})/);
+  const longTitleMatch = flat.match(/A Bill for AN ACT of Parliament (to .+?)(?:\s+ENACTED|\s+BE IT ENACTED|$)/i);
+
+  const memoIndex = flat.search(/MEMORANDUM OF OBJECTS AND REASONS/i);
+  let content = memoIndex >= 0 ? flat.slice(0, memoIndex).trim() : flat;
+  let memorandum: ParsedBill['memorandum'];
+  if (memoIndex >= 0) {
+    const memoText = flat.slice(memoIndex).replace(/^MEMORANDUM OF OBJECTS AND REASONS\s*/i, '');
+    const signOff = memoText.search(/\bDated the\b/i);
+    memorandum = {
+      text: (signOff >= 0 ? memoText.slice(0, signOff) : memoText).trim(),
+      date: signOff >= 0 ? parseLongDate(memoText.slice(signOff, signOff + 60)) : undefined,
+    };
+  }
+  if (content.length === 0) content = flat;
+
+  const id = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  return {
+    id,
+    title,
+    bill_number: billNumber,
+    house,
+    gazette_supplement: supplementMatch ? `Kenya Gazette Supplement No. ${supplementMatch[1]}` : undefined,
+    published_date: meta.published_date ?? (issueMatch ? parseLongDate(issueMatch[1]) : undefined),
+    url: meta.url,
+    description: longTitleMatch ? `An Act of Parliament ${longTitleMatch[1].trim()}` : undefined,
+    enacted_as: meta.enacted_as,
+    content,
+    memorandum,
+  };
+}
+
+export type GazetteNoticeType = 'commencement' | 'appointment' | 'other';
+
+export interface ParsedGazetteNotice {
+  notice_number: string;
+  notice_type: GazetteNoticeType;
+  title: string;
+  body: string;
+  /** Date in the "Dated the ..." sign-off. */
+  signed_date?: string;
+}
+
+export interface ParsedGazetteIssue {
+  volume?: string;
+  issue_number?: string;
+  issue_date?: string;
+  url?: string;
+  notices: ParsedGazetteNotice[];
+}
+
+/**
+ * Classify a notice so commencement notices and appointments can be filtered.
+ * Commencement wins: such notices often "appoint" the day an Act comes into force.
+ */
+function classifyGazetteNotice(text: string): GazetteNoticeType {
+  if (/\bcommencement\b|\bcomes? into (?:operation|force)\b|\bas the (?:date|day) on which\b/i.test(text)) {
+    return 'commencement';
+  }
+  if (/\bappoint(?:s|ed|ment)?\b/i.test(text)) return 'appointment';
+  return 'other';
+}
+
+/**
+ * Parse the text of a Kenya Gazette issue (as extracted from the PDF) into
+ * its notices.
+ *
+ * The masthead gives the volume, number and date ("Vol. CXXIV—No. 12
+ * NAIROBI, 21st January, 2022"). Each notice starts at "GAZETTE NOTICE
+ * NO. 1234", followed by capitalised heading lines (the Act and the subject,
+ * e.g. "THE DATA PROTECTION ACT" / "APPOINTMENT") and the notice body. Running
+ * page headers ("THE KENYA GAZETTE 123") and page numbers are dropped.
+ */
+export function parseGazetteText(text: string, url?: string): ParsedGazetteIssue {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(l => l.replace(/\s+/g, ' ').trim())
+    .filter(l => !/^(?:\d+\s+)?THE KENYA GAZETTE(?:\s+\d+)?$/i.test(l)
+      && !/^\d{1,2}(?:st|nd|rd|th)? [A-Za-z]+, \d{4}$/.test(l)
+      && !/^\d+$/.test(l));
+  const joined = lines.join('\n');
+  const flat = joined.replace(/\s+/g, ' ');
+
+  const volumeMatch = flat.match(/\bVol\.?\s*([CXLVI]+)\s*[—–-]+\s*No\.?\s*(\d+)/i);
+  const dateMatch = flat.match(/\bNAIROBI,\s*(\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]+,?\s+\d{4})/);
+
+  const notices: ParsedGazetteNotice[] = [];
+  const headerPattern = /GAZETTE NOTICE NO\.?\s*(\d+)/gi;
+  const starts: { number: string; index: number; end: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = headerPattern.exec(joined)) !== null) {
+    starts.push({ number: match[1], index: match.index, end: match.index + match[0].length });
+  }
+
+  for (let i = 0; i < starts.length; i++) {
+    const chunk = joined.slice(starts[i].end, i + 1 < starts.length ? starts[i + 1].index : joined.length);
+    const chunkLines = chunk.split('\n').filter(l => l.length > 0);
+
+    // Heading lines are upper case; an Act number line such as "(No. 24 of 2019)" belongs to the line above
+    const heading: string[] = [];
+    let bodyStart = 0;
+    for (; bodyStart < chunkLines.length; bodyStart++) {
+      const line = chunkLines[bodyStart];
+      if (/^\((?:No|Cap)\.?[^)]*\)$/i.test(line) && heading.length > 0) {
+        heading[heading.length - 1] += ` ${line}`;
+      } else if (!/[a-z]/.test(line) && /[A-Z]/.test(line)) {
+        heading.push(line);
+      } else {
+        break;
+      }
+    }
+
+    const body = chunkLines.slice(bodyStart).join(' ').replace(/\s+/g, ' ').trim();
+    const title = heading.join(' — ') || body.slice(0, 80);
+    const signOff = body.match(/\bDated the\s+(\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]+,?\s+\d{4})/i);
+
+    notices.push({
+      notice_number: starts[i].number,
+      notice_type: classifyGazetteNotice(`${title} ${body}`),
+      title,
+      body,
+      signed_date: signOff ? parseLongDate(signOff[1]) : undefined,
+    });
+  }
+
+  return {
+    volume: volumeMatch?.[1].toUpperCase(),
+    issue_number: volumeMatch?.[2],
+    issue_date: dateMatch ? parseLongDate(dateMatch[1]) : undefined,
+    url,
+    notices,
+  };
+}
+
+/** Conservatory orders that suspended parts of the Computer Misuse and Cybercrimes Act until the petition was dismissed. */
+const CMCA_SUSPENSION: ParsedProvisionStatus = {
+  provision_refs: ['s22', 's23', 's24', 's27', 's53'],
+  status: 'suspended',
+  authority_type: 'court_order',
+  authority: 'High Court conservatory orders of 29 May 2018, Bloggers Association of Kenya (BAKE) v Attorney General & 3 others, Petition No. 206 of 2018; lapsed on the judgment of 20 February 2020 dismissing the petition',
+  effective_date: '2018-05-29',
+  end_date: '2020-02-20',
+  note: 'These sections have been in force again since the petition was dismissed.',
+};
+
 /**
  * Pre-configured list of key Kenyan Acts to ingest.
  *
@@ -254,13 +868,14 @@ export const KEY_KENYAN_ACTS: ActIndexEntry[] = [
     title: 'Computer Misuse and Cybercrimes Act 2018',
     titleEn: 'Computer Misuse and Cybercrimes Act 2018',
     shortName: 'CMCA 2018',
-    status: 'partially_suspended',
+    status: 'in_force',
     issuedDate: '2018-05-16',
     inForceDate: '2018-05-30',
     url: 'https://new.kenyalaw.org/akn/ke/act/2018/5/',
     aknYear: '2018',
     aknNumber: '5',
-    description: 'Comprehensive cybercrime legislation; Sections 22, 23, 24, 27, and 53 suspended by High Court pending constitutional review',
+    description: 'Comprehensive cybercrime legislation; Sections 22, 23, 24, 27, and 53 were suspended by the High Court from May 2018 until the petition challenging them was dismissed in February 2020',
+    provisionStatus: [CMCA_SUSPENSION],
   },
   {
     id: 'companies-act-2015',
@@ -380,3 +995,28 @@ export const KEY_KENYAN_ACTS: ActIndexEntry[] = [
     description: 'Anti-money laundering legislation establishing the Financial Reporting Centre (FRC)',
   },
 ];
+
+/**
+ * Subsidiary legislation (regulations made under the Acts above).
+ *
+ * Source: new.kenyalaw.org. Legal Notices use the AKN URI pattern
+ * /akn/ke/act/ln/{year}/{number}/. Each entry names its parent Act and the
+ * enabling section(s) it was made under.
+ */
+export const KEY_SUBSIDIARY_LEGISLATION: ActIndexEntry[] = [
+  {
+    id: 'data-protection-general-regulations-2021',
+    type: 'subsidiary_legislation',
+    title: 'Data Protection (General) Regulations 2021',
+    titleEn: 'Data Protection (General) Regulations 2021',
+    shortName: 'DP General Regulations',
+    status: 'in_force',
+    url: 'https://new.kenyalaw.org/akn/ke/act/ln/2021/263/',
+    aknYear: '2021',
+    aknNumber: '263',
+    description: 'Regulations on data subject rights, data protection impact assessments, breach notification and cross-border transfers',
+    parentActId: 'data-protection-act-2019',
+    enablingSections: ['s71'],
+    legalNotice: 'Legal Notice No. 263 of 2021',
+  },
+];
@@ -9,13 +9,15 @@ export type Capability =
   | 'core_legislation'
   | 'eu_references'
   | 'case_law'
-  | 'preparatory_works';
+  | 'preparatory_works'
+  | 'gazette';
 
 const TABLE_MAP: Record<Capability, string[]> = {
   core_legislation: ['legal_documents', 'legal_provisions', 'provisions_fts'],
   eu_references: ['eu_documents', 'eu_references'],
-  case_law: ['case_law'],
+  case_law: ['case_law', 'case_law_fts', 'case_law_provisions'],
   preparatory_works: ['preparatory_works'],
+  gazette: ['gazette_notices', 'gazette_notices_fts'],
 };
 
 export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capability> {
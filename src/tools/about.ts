@@ -38,10 +38,22 @@ export function getAbout(db: InstanceType<typeof Database>, context: AboutContex
     },
     statistics: {
       documents: safeCount(db, 'SELECT COUNT(*) as count FROM legal_documents'),
-      provisions: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions'),
+      subsidiary_legislation: safeCount(db, "SELECT COUNT(*) as count FROM legal_documents WHERE type = 'subsidiary_legislation'"),
+      provisions: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions WHERE valid_to IS NULL'),
+      kiswahili_provisions: safeCount(db, "SELECT COUNT(*) as count FROM provision_translations WHERE language = 'sw'"),
+      embedded_provisions: safeCount(db, 'SELECT COUNT(*) as count FROM provision_embeddings'),
       definitions: safeCount(db, 'SELECT COUNT(*) as count FROM definitions'),
+      cross_references: safeCount(db, 'SELECT COUNT(*) as count FROM cross_references'),
+      amendments: safeCount(db, 'SELECT COUNT(*) as count FROM amendments'),
+      case_law: safeCount(db, 'SELECT COUNT(*) as count FROM case_law'),
+      preparatory_works: safeCount(db, 'SELECT COUNT(*) as count FROM preparatory_works'),
+      gazette_notices: safeCount(db, 'SELECT COUNT(*) as count FROM gazette_notices'),
       eu_documents: safeCount(db, 'SELECT COUNT(*) as count FROM eu_documents'),
+      eu_provisions: safeCount(db, 'SELECT COUNT(*) as count FROM eu_provisions'),
       eu_references: safeCount(db, 'SELECT COUNT(*) as count FROM eu_references'),
+      eu_gaps: safeCount(db, 'SELECT COUNT(*) as count FROM eu_gaps'),
+      international_instruments: safeCount(db, 'SELECT COUNT(*) as count FROM international_instruments'),
+      international_references: safeCount(db, 'SELECT COUNT(*) as count FROM international_references'),
     },
     data_source: {
       name: 'Kenya Law',
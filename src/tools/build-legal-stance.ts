@@ -1,72 +1,407 @@
 /**
- * build_legal_stance — Build a comprehensive set of citations for a legal question.
+ * build_legal_stance — Build a structured set of citations for a legal question:
+ * statutory provisions grouped by what they do, defined terms, the constitutional
+ * articles engaged, and currency warnings for every cited provision.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
 import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { findQueryExpansions } from '../utils/thesaurus.js';
+import { embedQuery, excerpt, hasEmbeddings, rankBySimilarity } from '../utils/embeddings.js';
+import {
+  getProvisionStatus, describeProvisionStatus, provisionStatusFromDocument, type ProvisionStatus,
+} from '../utils/provision-status.js';
+import { getProvisionCommencement, describeCommencement } from '../utils/commencement.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface BuildLegalStanceInput {
   query: string;
   document_id?: string;
+  /** "keyword" (default): BM25 only; "hybrid": BM25 fused with semantic similarity. */
+  mode?: string;
+  /** Maximum citations per category. */
   limit?: number;
 }
 
-export interface LegalStanceResult {
+export type StanceCategory =
+  | 'obligations'
+  | 'prohibitions'
+  | 'offences_penalties'
+  | 'definitions'
+  | 'exemptions'
+  | 'enforcement_bodies'
+  | 'other';
+
+export interface StanceCitation {
   document_id: string;
   document_title: string;
   provision_ref: string;
   section: string;
   title: string | null;
   snippet: string;
+  /** BM25 score (lower is better) in keyword mode; reciprocal rank fusion score (higher is better) in hybrid mode. */
   relevance: number;
+  provision_status: ProvisionStatus;
+  /** Why the provision may not be good law today; empty when it is in force. */
+  currency_warnings: string[];
+}
+
+export interface StanceCategoryGroup {
+  category: StanceCategory;
+  label: string;
+  citations: StanceCitation[];
+}
+
+export interface StanceDefinition {
+  term: string;
+  definition: string;
+  document_id: string;
+  document_title: string;
+  source_provision: string | null;
+}
+
+export interface ConstitutionalArticle extends StanceCitation {
+  /** 'search': the article itself matches the question; 'cross_reference': a cited provision refers to it. */
+  basis: 'search' | 'cross_reference';
+  /** Cited provisions that refer to the article, as "document_id provision_ref". */
+  referenced_by: string[];
 }
 
+export interface LegalStance {
+  query: string;
+  mode: 'keyword' | 'hybrid';
+  /** Non-empty categories, in the order of CATEGORY_LABELS. */
+  categories: StanceCategoryGroup[];
+  defined_terms: StanceDefinition[];
+  constitutional_articles: ConstitutionalArticle[];
+  total_citations: number;
+}
+
+interface Candidate {
+  provision_id: number;
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  content: string;
+  snippet: string;
+  relevance: number;
+}
+
+const CATEGORY_LABELS: Record<StanceCategory, string> = {
+  obligations: 'Obligations',
+  prohibitions: 'Prohibitions',
+  offences_penalties: 'Offences and penalties',
+  definitions: 'Definitions',
+  exemptions: 'Exemptions and exceptions',
+  enforcement_bodies: 'Enforcement bodies and powers',
+  other: 'Other relevant provisions',
+};
+
+/**
+ * Keyword classifiers, in priority order. Provision titles are the stronger
+ * signal, so every title rule is tried before any content rule.
+ */
+const CATEGORY_RULES: { category: Exclude<StanceCategory, 'other'>; title: RegExp; content: RegExp }[] = [
+  {
+    category: 'definitions',
+    title: /\b(interpretation|definitions?|meaning of)\b/i,
+    content: /^\s*In this (Act|Part|Constitution)\b.*\brequires\b/i,
+  },
+  {
+    category: 'offences_penalties',
+    title: /\b(offences?|penalt(y|ies)|fines?|sanctions?)\b/i,
+    content: /\bcommits an offence\b|\bliable,? on conviction\b|\bliable to a (fine|penalty)\b/i,
+  },
+  {
+    category: 'exemptions',
+    title: /\b(exempt\w*|exceptions?|exclusions?|savings?|non-application|limitation of)\b/i,
+    content: /\b(is|are|shall be) exempt(ed)? from\b|\b(shall|does) not apply to\b/i,
+  },
+  {
+    category: 'enforcement_bodies',
+    title: /\b(establishment|functions|powers|composition)\b.*\b(Authority|Commission|Commissioner|Office|Board|Tribunal|Agency|Centre|Bank|Council)\b|\benforcement\b|\binvestigat\w*|\bcompliance orders?\b/i,
+    content: /^\s*(\(1\)\s*)?There is (hereby )?established\b/i,
+  },
+  {
+    category: 'prohibitions',
+    title: /\b(prohibit\w*|restrict\w*|unlawful)\b/i,
+    content: /\b(no person|a person) shall not\b|\bshall not\b|\bis prohibited\b/i,
+  },
+  {
+    category: 'obligations',
+    title: /\b(duty|duties|obligations?|requirements?|responsibilit(y|ies)|notification|registration)\b/i,
+    content: /\bshall\b|\bmust\b/i,
+  },
+];
+
+function classify(title: string | null, content: string): StanceCategory {
+  const byTitle = title ? CATEGORY_RULES.find(rule => rule.title.test(title)) : undefined;
+  if (byTitle) return byTitle.category;
+  return CATEGORY_RULES.find(rule => rule.content.test(content))?.category ?? 'other';
+}
+
+/** Candidates taken from each ranking before grouping (and before fusion in hybrid mode). */
+const CANDIDATE_POOL = 50;
+/** Reciprocal rank fusion constant: damps the weight of the very top ranks. */
+const RRF_K = 60;
+
 export async function buildLegalStance(
   db: InstanceType<typeof Database>,
   input: BuildLegalStanceInput,
-): Promise<ToolResponse<LegalStanceResult[]>> {
+): Promise<ToolResponse<LegalStance | null>> {
   if (!input.query || input.query.trim().length === 0) {
-    return { results: [], _metadata: generateResponseMetadata(db) };
+    return { results: null, _metadata: generateResponseMetadata(db) };
+  }
+
+  const requestedMode = input.mode ?? 'keyword';
+  if (requestedMode !== 'keyword' && requestedMode !== 'hybrid') {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Unsupported mode "${input.mode}". Use "keyword" or "hybrid".` },
+      },
+    };
   }
 
   const limit = Math.min(Math.max(input.limit ?? 5, 1), 20);
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
+  const sanitized = sanitizeFtsInput(input.query);
+  const expansions = findQueryExpansions(sanitized);
+  const queryVariants = buildFtsQueryVariants(sanitized, expansions);
+  const expansionMetadata = expansions.length > 0 ? { query_expansions: expansions } : {};
+
+  const notes: string[] = [];
+  const mode = requestedMode === 'hybrid' && !hasEmbeddings(db) ? 'keyword' : requestedMode;
+  if (mode !== requestedMode) notes.push('This database has no embeddings; results are keyword matches only.');
 
+  const constitutionId = (db.prepare(
+    "SELECT id FROM legal_documents WHERE title LIKE 'Constitution of Kenya%' LIMIT 1"
+  ).get() as { id: string } | undefined)?.id ?? null;
+
+  const candidateColumns = `
+    lp.id as provision_id,
+    lp.document_id,
+    ld.title as document_title,
+    ld.status as document_status,
+    lp.provision_ref,
+    lp.section,
+    lp.title,
+    lp.content
+  `;
+
+  const keywordSearch = (documentId: string | undefined, max: number): Candidate[] => {
+    for (const ftsQuery of queryVariants) {
+      let sql = `
+        SELECT
+          ${candidateColumns},
+          snippet(provisions_fts, 0, '>>>', '<<<', '...', 48) as snippet,
+          bm25(provisions_fts) as relevance
+        FROM provisions_fts
+        JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        JOIN legal_documents ld ON ld.id = lp.document_id
+        WHERE provisions_fts MATCH ?
+          AND lp.valid_to IS NULL
+      `;
+      const params: (string | number)[] = [ftsQuery];
+
+      if (documentId) {
+        sql += ' AND lp.document_id = ?';
+        params.push(documentId);
+      }
+
+      sql += ' ORDER BY relevance LIMIT ?';
+      params.push(max);
+
+      try {
+        const rows = db.prepare(sql).all(...params) as Candidate[];
+        if (rows.length > 0) return rows;
+      } catch {
+        continue;
+      }
+    }
+    return [];
+  };
+
+  const lookup = db.prepare(`
+    SELECT ${candidateColumns}
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.id = ?
+  `);
+
+  // Hybrid: reciprocal rank fusion of the BM25 and vector rankings
+  const hybridSearch = (documentId: string | undefined, max: number): Candidate[] => {
+    const keyword = keywordSearch(documentId, CANDIDATE_POOL);
+    const { vector } = embedQuery(db, input.query);
+    const semantic = vector ? rankBySimilarity(db, vector, { documentId, limit: CANDIDATE_POOL }) : [];
+
+    const scores = new Map<number, number>();
+    const fuse = (ids: number[]) => ids.forEach((id, rank) => scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + rank + 1)));
+    fuse(keyword.map(r => r.provision_id));
+    fuse(semantic.map(r => r.provision_id));
+
+    const keywordRows = new Map(keyword.map(r => [r.provision_id, r]));
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, max)
+      .map(([id, score]) => {
+        const relevance = Math.round(score * 1e6) / 1e6;
+        const matched = keywordRows.get(id);
+        if (matched) return { ...matched, relevance };
+        // Found by meaning only: no FTS snippet, so show the opening words
+        const row = lookup.get(id) as Omit<Candidate, 'snippet' | 'relevance'>;
+        return { ...row, snippet: excerpt(row.content, 48), relevance };
+      });
+  };
+
+  const search = mode === 'hybrid' ? hybridSearch : keywordSearch;
+
+  const cite = (candidate: Candidate): StanceCitation => {
+    const { document_id, provision_ref, document_status } = candidate;
+    const warnings: string[] = [];
+    const detail = getProvisionStatus(db, document_id, provision_ref);
+    const commencement = getProvisionCommencement(db, document_id, provision_ref);
+    const status = detail?.status
+      ?? (commencement && !commencement.in_force ? 'not_commenced' : provisionStatusFromDocument(document_status));
+
+    if (detail) {
+      warnings.push(describeProvisionStatus(provision_ref, detail));
+    } else if (commencement && !commencement.in_force) {
+      warnings.push(describeCommencement(provision_ref, commencement));
+    } else if (document_status === 'repealed') {
+      warnings.push(`${candidate.document_title} has been repealed.`);
+    } else if (document_status === 'not_yet_in_force') {
+      warnings.push(`${candidate.document_title} has not yet entered into force.`);
+    }
+
+    return {
+      document_id,
+      document_title: candidate.document_title,
+      provision_ref,
+      section: candidate.section,
+      title: candidate.title,
+      snippet: candidate.snippet,
+      relevance: candidate.relevance,
+      provision_status: status,
+      currency_warnings: warnings,
+    };
+  };
+
+  // Statutory provisions, grouped by what they do
+  const groups = new Map<StanceCategory, StanceCitation[]>();
+  const cited: Candidate[] = [];
+  const articles = new Map<string, ConstitutionalArticle>();
+  for (const candidate of search(input.document_id, CANDIDATE_POOL)) {
+    // Articles are gathered separately below unless the question is confined to the Constitution
+    if (candidate.document_id === constitutionId) {
+      if (input.document_id === constitutionId && articles.size < limit) {
+        articles.set(candidate.provision_ref, { ...cite(candidate), basis: 'search', referenced_by: [] });
+      }
+      continue;
+    }
+    const category = classify(candidate.title, candidate.content);
+    const citations = groups.get(category) ?? [];
+    if (citations.length >= limit) continue;
+    citations.push(cite(candidate));
+    groups.set(category, citations);
+    cited.push(candidate);
+  }
+
+  // Constitutional articles: those matching the question, then those the cited provisions refer to.
+  // Keyword matching only here: the nearest articles by meaning are returned even when none is relevant.
+  if (constitutionId && input.document_id !== constitutionId) {
+    for (const candidate of keywordSearch(constitutionId, limit)) {
+      if (articles.size >= limit) break;
+      if (!articles.has(candidate.provision_ref)) {
+        articles.set(candidate.provision_ref, { ...cite(candidate), basis: 'search', referenced_by: [] });
+      }
+    }
+  }
+  if (constitutionId && cited.length > 0) {
+    const references = db.prepare(`
+      SELECT target_provision_ref, source_document_id, source_provision_ref
+      FROM cross_references
+      WHERE target_document_id = ? AND target_provision_ref IS NOT NULL
+        AND source_document_id = ? AND source_provision_ref = ?
+    `);
+    const article = db.prepare(`
+      SELECT ${candidateColumns}
+      FROM legal_provisions lp
+      JOIN legal_documents ld ON ld.id = lp.document_id
+      WHERE lp.document_id = ? AND lp.provision_ref = ? AND lp.valid_to IS NULL
+    `);
+    for (const candidate of cited) {
+      const rows = references.all(constitutionId, candidate.document_id, candidate.provision_ref) as
+        { target_provision_ref: string; source_document_id: string; source_provision_ref: string }[];
+      for (const ref of rows) {
+        const source = `${ref.source_document_id} ${ref.source_provision_ref}`;
+        const existing = articles.get(ref.target_provision_ref);
+        if (existing) {
+          if (!existing.referenced_by.includes(source)) existing.referenced_by.push(source);
+          continue;
+        }
+        const row = article.get(constitutionId, ref.target_provision_ref) as Omit<Candidate, 'snippet' | 'relevance'> | undefined;
+        if (!row) continue;
+        articles.set(ref.target_provision_ref, {
+          ...cite({ ...row, snippet: excerpt(row.content, 48), relevance: 0 }),
+          basis: 'cross_reference',
+          referenced_by: [source],
+        });
+      }
+    }
+  }
+
+  // Defined terms matching the question, from the interpretation sections
+  let definedTerms: StanceDefinition[] = [];
   for (const ftsQuery of queryVariants) {
     let sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        lp.provision_ref,
-        lp.section,
-        lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 48) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
+      SELECT d.term, d.definition, d.document_id, ld.title as document_title, d.source_provision
+      FROM definitions_fts
+      JOIN definitions d ON d.id = definitions_fts.rowid
+      JOIN legal_documents ld ON ld.id = d.document_id
+      WHERE definitions_fts MATCH ?
     `;
     const params: (string | number)[] = [ftsQuery];
-
     if (input.document_id) {
-      sql += ' AND lp.document_id = ?';
+      sql += ' AND d.document_id = ?';
       params.push(input.document_id);
     }
-
-    sql += ' ORDER BY relevance LIMIT ?';
+    sql += ' ORDER BY bm25(definitions_fts) LIMIT ?';
     params.push(limit);
 
     try {
-      const rows = db.prepare(sql).all(...params) as LegalStanceResult[];
-      if (rows.length > 0) {
-        return { results: rows, _metadata: generateResponseMetadata(db) };
-      }
+      definedTerms = db.prepare(sql).all(...params) as StanceDefinition[];
+      if (definedTerms.length > 0) break;
     } catch {
       continue;
     }
   }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  const categories = (Object.keys(CATEGORY_LABELS) as StanceCategory[])
+    .filter(category => groups.has(category))
+    .map(category => ({ category, label: CATEGORY_LABELS[category], citations: groups.get(category)! }));
+  const constitutionalArticles = [...articles.values()];
+  const totalCitations = categories.reduce((sum, group) => sum + group.citations.length, 0) + constitutionalArticles.length;
+
+  if (totalCitations === 0) notes.push('No provisions match this question.');
+  if ([...categories.flatMap(g => g.citations), ...constitutionalArticles].some(c => c.currency_warnings.length > 0)) {
+    notes.push('Some cited provisions are not in force; see currency_warnings.');
+  }
+
+  return {
+    results: {
+      query: input.query,
+      mode,
+      categories,
+      defined_terms: definedTerms,
+      constitutional_articles: constitutionalArticles,
+      total_citations: totalCitations,
+    },
+    _metadata: notes.length > 0
+      ? { ...generateResponseMetadata(db), ...expansionMetadata, ...{ note: notes.join(' ') } }
+      : { ...generateResponseMetadata(db), ...expansionMetadata },
+  };
 }
@@ -1,9 +1,18 @@
 /**
- * check_currency — Check whether a Kenyan statute is currently in force.
+ * check_currency — Check whether a Kenyan statute or section is in force, and by which instrument.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { normalizeAsOfDate, provisionValidityClause } from '../utils/as-of-date.js';
+import {
+  getProvisionStatus, describeProvisionStatus, provisionStatusFromDocument,
+  type ProvisionStatus, type ProvisionStatusDetail,
+} from '../utils/provision-status.js';
+import {
+  listCommencements, getProvisionCommencement, describeCommencement,
+  type CommencementRecord, type ProvisionCommencement,
+} from '../utils/commencement.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface CheckCurrencyInput {
@@ -18,6 +27,20 @@ export interface CheckCurrencyResult {
   status: string;
   issued_date: string | null;
   in_force_date: string | null;
+  as_of_date?: string;
+  /** Instruments that brought the Act into force, when it was commenced in stages. */
+  commencements?: CommencementRecord[];
+  provision?: {
+    provision_ref: string;
+    valid_from: string | null;
+    valid_to: string | null;
+    content: string;
+    status: ProvisionStatus;
+    /** Authority and dates behind a provision-level status; null when it simply follows the Act. */
+    status_detail: ProvisionStatusDetail | null;
+    /** When and by which instrument the provision came into force; null when only the Act's date is known. */
+    commencement: ProvisionCommencement | null;
+  } | null;
   warnings: string[];
 }
 
@@ -51,14 +74,76 @@ export async function checkCurrency(
   };
 
   const warnings: string[] = [];
-  if (doc.status === 'repealed') {
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (input.as_of_date && !asOfDate) {
+    warnings.push(`Invalid as_of_date "${input.as_of_date}" ignored. Use ISO 8601 (YYYY-MM-DD).`);
+  }
+
+  const commencements = listCommencements(db, resolvedId);
+  const checkDate = asOfDate ?? new Date().toISOString().slice(0, 10);
+  const firstCommenced = commencements[0]?.commencement_date ?? doc.in_force_date;
+
+  if (asOfDate && firstCommenced && asOfDate < firstCommenced) {
+    warnings.push(`This statute was not yet in force on ${asOfDate} (in force from ${firstCommenced}).`);
+  } else if (
+    !input.provision_ref
+    && commencements.length > 0
+    && (commencements.some(c => c.commencement_date > checkDate) || commencements.every(c => c.provisions !== null))
+  ) {
+    warnings.push(
+      `This statute was brought into force in stages and not every provision was in force on ${checkDate}. ` +
+      'Pass provision_ref to check a specific section.'
+    );
+  } else if (doc.status === 'repealed') {
     warnings.push('This statute has been repealed and is no longer in force.');
   } else if (doc.status === 'not_yet_in_force') {
     warnings.push('This statute has not yet entered into force.');
-  } else if (doc.status === 'partially_suspended') {
+  } else if (doc.status === 'partially_suspended' && !input.provision_ref) {
     warnings.push('Certain sections of this statute have been suspended by court order. Verify which sections remain in force.');
   }
 
+  let provision: CheckCurrencyResult['provision'];
+  if (input.provision_ref) {
+    const ref = input.provision_ref.trim();
+    const validity = provisionValidityClause('lp', asOfDate);
+    const row = db.prepare(`
+      SELECT lp.provision_ref, lp.valid_from, lp.valid_to, lp.content
+      FROM legal_provisions lp
+      WHERE lp.document_id = ?
+        AND (lp.provision_ref = ? OR lp.provision_ref = ? OR lp.provision_ref = ? OR lp.section = ?)
+        AND ${validity.sql}
+    `).get(resolvedId, ref, `s${ref}`, `art${ref}`, ref, ...validity.params) as
+      Omit<NonNullable<CheckCurrencyResult['provision']>, 'status' | 'status_detail' | 'commencement'> | undefined;
+
+    if (!row) {
+      provision = null;
+      warnings.push(
+        asOfDate
+          ? `Provision "${ref}" did not exist in this statute on ${asOfDate}.`
+          : `Provision "${ref}" not found in this statute.`
+      );
+    } else {
+      const detail = getProvisionStatus(db, resolvedId, row.provision_ref, asOfDate);
+      const commencement = getProvisionCommencement(db, resolvedId, row.provision_ref, asOfDate);
+      const status = detail?.status
+        ?? (commencement && !commencement.in_force ? 'not_commenced' : provisionStatusFromDocument(doc.status));
+      provision = { ...row, status, status_detail: detail, commencement };
+
+      if (commencement && !commencement.in_force) {
+        warnings.push(describeCommencement(row.provision_ref, commencement, asOfDate));
+      }
+
+      if (row.valid_to) {
+        warnings.push(`The wording of ${row.provision_ref} in force on ${asOfDate} was replaced on ${row.valid_to}.`);
+      }
+      if (detail) {
+        warnings.push(describeProvisionStatus(row.provision_ref, detail));
+      } else if (doc.status === 'partially_suspended') {
+        warnings.push(`${row.provision_ref} is not among the suspended provisions of this statute.`);
+      }
+    }
+  }
+
   return {
     results: {
       document_id: doc.id,
@@ -66,6 +151,9 @@ export async function checkCurrency(
       status: doc.status,
       issued_date: doc.issued_date,
       in_force_date: doc.in_force_date,
+      ...(asOfDate ? { as_of_date: asOfDate } : {}),
+      ...(commencements.length > 0 ? { commencements } : {}),
+      ...(provision !== undefined ? { provision } : {}),
       warnings,
     },
     _metadata: generateResponseMetadata(db),
@@ -0,0 +1,139 @@
+/**
+ * compare_provision_versions — Word-level diff between two recorded wordings of a provision.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { diffWords, summarizeDiff, type DiffSpan, type DiffSummary } from '../utils/word-diff.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface CompareProvisionVersionsInput {
+  document_id: string;
+  provision_ref: string;
+  /** Compare the wording in force on this date (default: the wording before the current one). */
+  from_date?: string;
+  /** ...with the wording in force on this date (default: the current wording). */
+  to_date?: string;
+}
+
+export interface ProvisionVersion {
+  title: string | null;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+export interface CompareProvisionVersionsResult {
+  document_id: string;
+  provision_ref: string;
+  from: ProvisionVersion;
+  to: ProvisionVersion;
+  changes: DiffSpan[];
+  summary: DiffSummary;
+  /** Every recorded wording, oldest first. */
+  versions: ProvisionVersion[];
+}
+
+interface VersionRow extends ProvisionVersion {
+  provision_ref: string;
+  content: string;
+}
+
+function versionOn(versions: VersionRow[], date: string): VersionRow | undefined {
+  return versions.find(v =>
+    (v.valid_from === null || v.valid_from <= date) && (v.valid_to === null || v.valid_to > date)
+  );
+}
+
+function describe({ title, valid_from, valid_to }: VersionRow): ProvisionVersion {
+  return { title, valid_from, valid_to };
+}
+
+export async function compareProvisionVersions(
+  db: InstanceType<typeof Database>,
+  input: CompareProvisionVersionsInput,
+): Promise<ToolResponse<CompareProvisionVersionsResult | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  const ref = input.provision_ref.trim();
+  const versions = db.prepare(`
+    SELECT provision_ref, title, content, valid_from, valid_to
+    FROM legal_provisions
+    WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?)
+    ORDER BY valid_to IS NULL, valid_to, id
+  `).all(resolvedId, ref, `s${ref}`, `art${ref}`, ref) as VersionRow[];
+
+  if (versions.length === 0) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Provision "${ref}" not found in document "${resolvedId}"` },
+      },
+    };
+  }
+
+  const dates: Record<'from_date' | 'to_date', string | null> = { from_date: null, to_date: null };
+  for (const key of ['from_date', 'to_date'] as const) {
+    if (!input[key]) continue;
+    dates[key] = normalizeAsOfDate(input[key]);
+    if (!dates[key]) {
+      return {
+        results: null,
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `Invalid ${key} "${input[key]}". Use ISO 8601 (YYYY-MM-DD).` },
+        },
+      };
+    }
+  }
+
+  const current = versions[versions.length - 1];
+  const to = dates.to_date ? versionOn(versions, dates.to_date) : current;
+  const from = dates.from_date
+    ? versionOn(versions, dates.from_date)
+    : versions[Math.max(versions.indexOf(to ?? current) - 1, 0)];
+
+  const missing = !from ? dates.from_date : !to ? dates.to_date : null;
+  if (!from || !to) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `${current.provision_ref} was not in force on ${missing}` },
+      },
+    };
+  }
+
+  const changes = diffWords(from.content, to.content);
+  const notes: string[] = [];
+  if (versions.length === 1) {
+    notes.push(`Only one wording of ${current.provision_ref} is recorded; nothing to compare.`);
+  } else if (from === to) {
+    notes.push('Both dates fall within the same wording; no changes.');
+  }
+
+  return {
+    results: {
+      document_id: resolvedId,
+      provision_ref: current.provision_ref,
+      from: describe(from),
+      to: describe(to),
+      changes,
+      summary: summarizeDiff(changes),
+      versions: versions.map(describe),
+    },
+    _metadata: notes.length > 0
+      ? { ...generateResponseMetadata(db), ...{ note: notes.join(' ') } }
+      : generateResponseMetadata(db),
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * compare_with_eu — Read a Kenyan provision beside the EU article(s) it maps to.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { hasEmbeddings, provisionSimilarity } from '../utils/embeddings.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface CompareWithEUInput {
+  document_id: string;
+  provision_ref: string;
+  eu_document_id?: string;
+  eu_article?: string;
+}
+
+export interface EUArticleComparison {
+  eu_document_id: string;
+  article: string;
+  citation: string;
+  title: string | null;
+  /** Null when the article's text is not in the bundled seed. */
+  content: string | null;
+  url_eur_lex: string | null;
+  /** Null when the article was requested directly rather than mapped. */
+  reference_type: string | null;
+  correspondence: string | null;
+  note: string | null;
+  /** Cosine similarity of the two texts in the semantic search model, 0–1. */
+  similarity: number | null;
+}
+
+export interface CompareWithEUResult {
+  kenyan_provision: {
+    document_id: string;
+    document_title: string;
+    provision_ref: string;
+    title: string | null;
+    content: string;
+  };
+  eu_articles: EUArticleComparison[];
+}
+
+interface ArticleRow {
+  eu_document_id: string;
+  eu_article: string;
+  reference_type: string | null;
+  correspondence: string | null;
+  reference_context: string | null;
+  short_name: string | null;
+  eu_document_title: string | null;
+  url_eur_lex: string | null;
+  title: string | null;
+  content: string | null;
+}
+
+export async function compareWithEU(
+  db: InstanceType<typeof Database>,
+  input: CompareWithEUInput,
+): Promise<ToolResponse<CompareWithEUResult | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: { ...generateResponseMetadata(db), ...{ note: `Document not found: "${input.document_id}"` } },
+    };
+  }
+
+  const ref = input.provision_ref.trim();
+  const provision = db.prepare(`
+    SELECT lp.id, lp.provision_ref, lp.title, lp.content, ld.title as document_title
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.document_id = ? AND (lp.provision_ref = ? OR lp.provision_ref = ? OR lp.provision_ref = ? OR lp.section = ?)
+      AND lp.valid_to IS NULL
+  `).get(resolvedId, ref, `s${ref}`, `art${ref}`, ref) as
+    { id: number; provision_ref: string; title: string | null; content: string; document_title: string } | undefined;
+  if (!provision) {
+    return {
+      results: null,
+      _metadata: { ...generateResponseMetadata(db), ...{ note: `Provision ${ref} not found in ${resolvedId}` } },
+    };
+  }
+
+  const articleColumns = `
+    ed.short_name,
+    COALESCE(ed.title, ed.short_name) as eu_document_title,
+    ed.url_eur_lex,
+    ep.title,
+    ep.content
+  `;
+  let sql = `
+    SELECT DISTINCT
+      er.eu_document_id,
+      er.eu_article,
+      er.reference_type,
+      er.correspondence,
+      er.reference_context,
+      ${articleColumns}
+    FROM eu_references er
+    LEFT JOIN eu_documents ed ON ed.id = er.eu_document_id
+    LEFT JOIN eu_provisions ep ON ep.eu_document_id = er.eu_document_id AND ep.article = er.eu_article
+    WHERE er.provision_id = ? AND er.eu_article IS NOT NULL
+  `;
+  const params: (string | number)[] = [provision.id];
+  if (input.eu_document_id) {
+    sql += ' AND er.eu_document_id = ?';
+    params.push(input.eu_document_id);
+  }
+  if (input.eu_article) {
+    sql += ' AND er.eu_article = ?';
+    params.push(input.eu_article);
+  }
+
+  let rows: ArticleRow[];
+  try {
+    rows = db.prepare(sql).all(...params) as ArticleRow[];
+    // An article named outright is compared even when no mapping links it to the provision
+    if (rows.length === 0 && input.eu_document_id && input.eu_article) {
+      rows = db.prepare(`
+        SELECT
+          ed.id as eu_document_id,
+          ? as eu_article,
+          NULL as reference_type,
+          NULL as correspondence,
+          NULL as reference_context,
+          ${articleColumns}
+        FROM eu_documents ed
+        LEFT JOIN eu_provisions ep ON ep.eu_document_id = ed.id AND ep.article = ?
+        WHERE ed.id = ?
+      `).all(input.eu_article, input.eu_article, input.eu_document_id) as ArticleRow[];
+    }
+  } catch {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'EU article text is not available in this database; rebuild it with npm run build:db.' },
+      },
+    };
+  }
+
+  const canScore = hasEmbeddings(db);
+  const euArticles: EUArticleComparison[] = rows.map(row => ({
+    eu_document_id: row.eu_document_id,
+    article: row.eu_article,
+    citation: `${row.short_name ?? row.eu_document_title ?? row.eu_document_id}, Article ${row.eu_article}`,
+    title: row.title,
+    content: row.content,
+    url_eur_lex: row.url_eur_lex,
+    reference_type: row.reference_type,
+    correspondence: row.correspondence,
+    note: row.reference_context,
+    similarity: canScore && row.content ? roundScore(provisionSimilarity(db, provision.id, row.content)) : null,
+  }));
+  euArticles.sort((a, b) => (b.similarity ?? -1) - (a.similarity ?? -1));
+
+  const notes: string[] = [];
+  if (euArticles.length === 0 && input.eu_document_id && input.eu_article) {
+    notes.push(`EU instrument not found: "${input.eu_document_id}"; EU ids take the form regulation:2016/679.`);
+  } else if (euArticles.length === 0) {
+    notes.push(`No EU article is mapped to ${provision.provision_ref}; name one with eu_document_id and eu_article to compare it directly.`);
+  }
+  const withoutText = euArticles.filter(a => a.content === null).map(a => a.citation);
+  if (withoutText.length > 0) {
+    notes.push(
+      `The EU text is missing from this database for ${withoutText.join('; ')}, so content is null and only ` +
+      'the Kenyan side can be compared here; follow url_eur_lex for the wording.',
+    );
+  }
+  if (!canScore && euArticles.length > 0) {
+    notes.push('Similarity scores need the semantic search tables; rebuild the database with npm run build:db.');
+  }
+
+  return {
+    results: {
+      kenyan_provision: {
+        document_id: resolvedId,
+        document_title: provision.document_title,
+        provision_ref: provision.provision_ref,
+        title: provision.title,
+        content: provision.content,
+      },
+      eu_articles: euArticles,
+    },
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(notes.length > 0 ? { note: notes.join(' ') } : {}),
+    },
+  };
+}
+
+function roundScore(score: number | null): number | null {
+  return score === null ? null : Math.round(score * 1000) / 1000;
+}
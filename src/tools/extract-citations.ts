@@ -0,0 +1,385 @@
+/**
+ * extract_citations — Find every Kenyan legal citation in a passage and validate each one.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { validateCitationTool, type ValidateCitationResult } from './validate-citation.js';
+
+export interface ExtractCitationsInput {
+  text: string;
+  /** Act that bare "section N" and "the Act" refer to before any Act is named. */
+  document_id?: string;
+}
+
+export type CitationOutcome = 'valid' | 'invalid' | 'repealed' | 'suspended' | 'not_in_force' | 'unverified';
+
+export interface ExtractedCitation {
+  /** The citation as written; a list such as "sections 3 and 4" yields one hit per section sharing this span. */
+  text: string;
+  start: number;
+  end: number;
+  kind: 'section' | 'article' | 'act' | 'cap' | 'legal_notice';
+  provision_ref: string | null;
+  document_id: string | null;
+  /**
+   * How the Act was identified: named in the citation, carried over from an earlier mention, the input
+   * document_id, or (for an Article with no Act named) assumed to be the Constitution.
+   */
+  resolved_via: 'named' | 'earlier_mention' | 'default_document' | 'assumed_constitution' | null;
+  outcome: CitationOutcome;
+  validation: ValidateCitationResult;
+}
+
+export interface ExtractCitationsResult {
+  citations: ExtractedCitation[];
+  summary: Record<CitationOutcome, number> & { total: number };
+}
+
+interface ActContext {
+  documentId: string | null;
+  name: string;
+  via: 'named' | 'default_document';
+}
+
+interface Candidate {
+  start: number;
+  end: number;
+  match: RegExpExecArray;
+  type: 'provision' | 'act' | 'back_reference' | 'constitution' | 'cap' | 'legal_notice';
+}
+
+const ACT_NAME =
+  "[A-Z][A-Za-z'’-]*(?:\\s+(?:[A-Z][A-Za-z'’-]*|and|of|the|for|on|in|to))*\\s+Act" +
+  '(?:,?\\s+\\d{4})?(?:\\s*\\(\\s*(?:No\\.\\s*\\d+\\s+of\\s+\\d{4}|Cap\\.?\\s*\\d+[A-Z]?)\\s*\\))?';
+const CONSTITUTION = 'Constitution(?:\\s+of\\s+Kenya)?(?:,?\\s+2010)?';
+const BACK_REFERENCE = '(?:[Tt]he\\s+said|[Tt]he|[Tt]his|[Tt]hat)\\s+Act\\b';
+const NUMBER = '\\d+[A-Z]{0,2}(?:\\s*\\(\\s*[0-9A-Za-z]+\\s*\\))*';
+const NUMBER_LIST = `${NUMBER}(?:\\s*(?:,|and|or|to|-|–)\\s*${NUMBER})*`;
+
+/**
+ * "Section 26(1)(b) of the Data Protection Act", "ss. 3 and 4", "Article 31 of the Constitution", "s 25 of this Act".
+ * The last alternative catches "of <something else>" (the GDPR, this Agreement) so foreign articles are skipped.
+ */
+const PROVISION_PATTERN = new RegExp(
+  `(?<![\\w'’])(?:([Ss]ections?|[Ss]ecs?\\.|[Ss]{1,2}\\.|[Ss](?=\\s*\\d))|([Aa]rticles?|[Aa]rts?\\.))\\s*(${NUMBER_LIST})` +
+  `(?:\\s+of\\s+(?:(${BACK_REFERENCE})|(?:the\\s+)?(${CONSTITUTION})|(?:the\\s+)?(${ACT_NAME})|((?:the\\s+|this\\s+|that\\s+)?[A-Z][\\w.]*)))?`,
+  'g',
+);
+const ACT_PATTERN = new RegExp(`\\b${ACT_NAME}`, 'g');
+const CONSTITUTION_PATTERN = new RegExp(`\\b${CONSTITUTION}`, 'g');
+const BACK_REFERENCE_PATTERN = new RegExp(`\\b${BACK_REFERENCE}`, 'g');
+const CAP_PATTERN = /\bCap\.?\s*(\d+[A-Z]?)\b/g;
+const LEGAL_NOTICE_PATTERN = /\b(?:Legal\s+Notice|L\.\s?N\.)\s*(?:No\.?\s*)?(\d+)(?:\s+of\s+|\s*\/\s*)(\d{4})\b/gi;
+
+const CONSTITUTION_ID = 'constitution-of-kenya-2010';
+
+function scan(text: string): Candidate[] {
+  const candidates: Candidate[] = [];
+  const collect = (pattern: RegExp, type: Candidate['type']) => {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      candidates.push({ start: match.index, end: match.index + match[0].length, match, type });
+    }
+  };
+  collect(PROVISION_PATTERN, 'provision');
+  collect(ACT_PATTERN, 'act');
+  collect(CONSTITUTION_PATTERN, 'constitution');
+  collect(BACK_REFERENCE_PATTERN, 'back_reference');
+  collect(CAP_PATTERN, 'cap');
+  collect(LEGAL_NOTICE_PATTERN, 'legal_notice');
+
+  // Earliest first, longest first at the same offset; a match inside an earlier one is part of it
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: Candidate[] = [];
+  for (const candidate of candidates) {
+    if (kept.length > 0 && candidate.start < kept[kept.length - 1].end) continue;
+    kept.push(candidate);
+  }
+  return kept;
+}
+
+/**
+ * Resolve an Act name as written in prose. The name pattern also takes in the
+ * capitalised words before it ("Under the Data Protection Act"), so leading
+ * words are dropped until a document matches. A year in the citation must
+ * agree with the document's.
+ */
+function resolveActName(
+  db: InstanceType<typeof Database>,
+  written: string,
+): { documentId: string | null; offset: number; name: string } {
+  const year = written.match(/Act,?\s+(\d{4})/)?.[1] ?? written.match(/No\.\s*\d+\s+of\s+(\d{4})/)?.[1];
+  const base = written.replace(/\s*\(.*\)\s*$/, '').replace(/,?\s+\d{4}$/, '');
+  const words = base.split(/\s+/);
+
+  let offset = 0;
+  for (let i = 0; i < words.length - 1; i++) {
+    if (i > 0) offset = written.indexOf(words[i], offset + words[i - 1].length);
+    if (!/^[A-Z]/.test(words[i])) continue;
+    const name = words.slice(i).join(' ');
+    if (year) {
+      const withYear = resolveDocumentId(db, `${name} ${year}`);
+      if (withYear) return { documentId: withYear, offset, name: written.slice(offset) };
+    }
+    const documentId = resolveDocumentId(db, name);
+    if (documentId && (!year || yearAgrees(db, documentId, year))) {
+      return { documentId, offset, name: written.slice(offset) };
+    }
+  }
+
+  const unresolvedOffset = written.match(/^(?:\S+\s+)*?(?<!\bof\s)[Tt]he\s+(?=[A-Z])/)?.[0].length ?? 0;
+  return { documentId: null, offset: unresolvedOffset, name: written.slice(unresolvedOffset).replace(/\s*\(.*\)\s*$/, '') };
+}
+
+function yearAgrees(db: InstanceType<typeof Database>, documentId: string, year: string): boolean {
+  const doc = db.prepare('SELECT title, issued_date FROM legal_documents WHERE id = ?').get(documentId) as
+    { title: string; issued_date: string | null };
+  const titleYear = doc.title.match(/\b(\d{4})\b/)?.[1];
+  return titleYear ? titleYear === year : doc.issued_date?.slice(0, 4) === year;
+}
+
+function outcomeOf(result: ValidateCitationResult): CitationOutcome {
+  if (!result.valid) return result.warnings.some(w => w.startsWith('Document not found')) ? 'unverified' : 'invalid';
+  switch (result.provision_status) {
+    case 'repealed': return 'repealed';
+    case 'suspended': return 'suspended';
+    case 'not_commenced': return 'not_in_force';
+  }
+  if (result.status === 'repealed') return 'repealed';
+  if (result.status === 'not_yet_in_force') return 'not_in_force';
+  return 'valid';
+}
+
+interface CheckedCitation {
+  validation: ValidateCitationResult;
+  outcome: CitationOutcome;
+}
+
+function unverified(citation: string, warning: string): CheckedCitation {
+  return { validation: { valid: false, citation, warnings: [warning] }, outcome: 'unverified' };
+}
+
+/** Ranges ("sections 22 to 24") spanning more sections than this give only their endpoints. */
+const MAX_RANGE = 50;
+
+/** Section numbers of a list such as "3, 4 and 26(1)(b)" or "22 to 24". */
+function splitNumbers(list: string): string[] {
+  const numbers: string[] = [];
+  const item = new RegExp(`(${NUMBER})(?:\\s*(,|and|or|to|-|–)\\s*)?`, 'g');
+  let rangeStart: string | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = item.exec(list)) !== null) {
+    const number = match[1].replace(/\s+/g, '');
+    if (rangeStart !== null && /^\d+$/.test(rangeStart) && /^\d+$/.test(number)) {
+      const from = Number(rangeStart);
+      const to = Number(number);
+      if (to > from && to - from <= MAX_RANGE) {
+        for (let n = from + 1; n < to; n++) numbers.push(String(n));
+      }
+    }
+    numbers.push(number);
+    rangeStart = match[2] && /^(?:to|-|–)$/.test(match[2]) ? number : null;
+  }
+  return numbers;
+}
+
+function validateLegalNotice(db: InstanceType<typeof Database>, number: string, year: string): CheckedCitation {
+  const citation = `Legal Notice No. ${number} of ${year}`;
+  const matches = (notice: string | null) => {
+    if (!notice) return false;
+    LEGAL_NOTICE_PATTERN.lastIndex = 0;
+    const parsed = LEGAL_NOTICE_PATTERN.exec(notice);
+    return parsed !== null && parsed[1] === number && parsed[2] === year;
+  };
+
+  const found: string[] = [];
+  let documentId: string | undefined;
+  try {
+    for (const row of db.prepare(`
+      SELECT c.document_id, ld.title, c.provisions, c.commencement_date, c.legal_notice
+      FROM commencements c JOIN legal_documents ld ON ld.id = c.document_id
+      WHERE c.legal_notice IS NOT NULL
+    `).all() as { document_id: string; title: string; provisions: string | null; commencement_date: string; legal_notice: string }[]) {
+      if (!matches(row.legal_notice)) continue;
+      documentId ??= row.document_id;
+      found.push(`Brought ${row.provisions ?? 'the whole Act'} of the ${row.title} into force on ${row.commencement_date}.`);
+    }
+    for (const row of db.prepare(`
+      SELECT sl.document_id, ld.title, parent.title as parent_title, sl.legal_notice
+      FROM subsidiary_legislation sl
+      JOIN legal_documents ld ON ld.id = sl.document_id
+      JOIN legal_documents parent ON parent.id = sl.parent_document_id
+      WHERE sl.legal_notice IS NOT NULL
+    `).all() as { document_id: string; title: string; parent_title: string; legal_notice: string }[]) {
+      if (!matches(row.legal_notice)) continue;
+      documentId ??= row.document_id;
+      found.push(`Published the ${row.title}, made under the ${row.parent_title}.`);
+    }
+    for (const row of db.prepare(`
+      SELECT ps.document_id, ld.title, ps.provision_ref, ps.status, ps.authority
+      FROM provision_status ps JOIN legal_documents ld ON ld.id = ps.document_id
+      WHERE ps.authority_type = 'legal_notice'
+    `).all() as { document_id: string; title: string; provision_ref: string; status: string; authority: string }[]) {
+      if (!matches(row.authority)) continue;
+      documentId ??= row.document_id;
+      found.push(`Authority for ${row.provision_ref} of the ${row.title} being ${row.status.replace('_', ' ')}.`);
+    }
+  } catch {
+    // Databases built before commencement tracking have none of these tables
+  }
+
+  if (found.length === 0) {
+    return unverified(citation, `${citation} is not recorded in this database; check it against the Kenya Gazette.`);
+  }
+  return {
+    validation: { valid: true, citation, normalized: citation, ...(documentId ? { document_id: documentId } : {}), warnings: found },
+    outcome: 'valid',
+  };
+}
+
+export async function extractCitations(
+  db: InstanceType<typeof Database>,
+  input: ExtractCitationsInput,
+): Promise<ToolResponse<ExtractCitationsResult>> {
+  const text = input.text ?? '';
+  const citations: ExtractedCitation[] = [];
+  const notes: string[] = [];
+
+  let defaultContext: ActContext | null = null;
+  if (input.document_id) {
+    const documentId = resolveDocumentId(db, input.document_id);
+    if (documentId) {
+      defaultContext = { documentId, name: documentId, via: 'default_document' };
+    } else {
+      notes.push(`Document not found: "${input.document_id}"; bare section references are left unverified until an Act is named.`);
+    }
+  }
+  let context = defaultContext;
+
+  const push = async (
+    candidate: Candidate,
+    kind: ExtractedCitation['kind'],
+    provisionRef: string | null,
+    actContext: ActContext | null,
+    resolvedVia: ExtractedCitation['resolved_via'],
+    checked?: CheckedCitation,
+    start = candidate.start,
+  ) => {
+    let result = checked;
+    if (!result && !actContext) {
+      result = unverified(
+        text.slice(start, candidate.end),
+        'No Act is named before this reference; pass document_id to say which Act it belongs to.',
+      );
+    }
+    if (!result && !actContext!.documentId) {
+      result = unverified(
+        text.slice(start, candidate.end),
+        `Document not found: "${actContext!.name}" does not match any Act in this database.`,
+      );
+    }
+    if (!result) {
+      const keyword = kind === 'article' ? 'Article' : 'Section';
+      const citation = provisionRef ? `${keyword} ${provisionRef}, ${actContext!.documentId}` : actContext!.documentId!;
+      const validation = (await validateCitationTool(db, { citation })).results;
+      result = { validation, outcome: outcomeOf(validation) };
+    }
+    citations.push({
+      text: text.slice(start, candidate.end),
+      start,
+      end: candidate.end,
+      kind,
+      provision_ref: provisionRef,
+      document_id: result.validation.document_id ?? actContext?.documentId ?? null,
+      resolved_via: resolvedVia,
+      outcome: result.outcome,
+      validation: result.validation,
+    });
+  };
+
+  const namedAct = (written: string): { act: ActContext; offset: number } => {
+    const resolved = resolveActName(db, written);
+    return { act: { documentId: resolved.documentId, name: resolved.name, via: 'named' }, offset: resolved.offset };
+  };
+  const fromContext = (): ExtractedCitation['resolved_via'] =>
+    context ? (context.via === 'default_document' ? 'default_document' : 'earlier_mention') : null;
+  const constitution: ActContext = { documentId: resolveDocumentId(db, CONSTITUTION_ID), name: 'Constitution of Kenya 2010', via: 'named' };
+
+  for (const candidate of scan(text)) {
+    const m = candidate.match;
+    switch (candidate.type) {
+      case 'provision': {
+        const [, sectionWord, , numbers, backReference, constitutionName, actName, foreign] = m;
+        if (foreign) continue;
+        const kind = sectionWord ? 'section' : 'article';
+
+        let act: ActContext | null;
+        let via: ExtractedCitation['resolved_via'];
+        if (constitutionName) {
+          act = constitution;
+          via = 'named';
+        } else if (actName) {
+          act = namedAct(actName).act;
+          via = 'named';
+          context = act;
+        } else if (kind === 'article' && !backReference) {
+          // Kenyan statutes are divided into sections; a bare Article is the Constitution's
+          act = constitution;
+          via = 'assumed_constitution';
+        } else {
+          act = context;
+          via = fromContext();
+        }
+        for (const ref of splitNumbers(numbers)) {
+          await push(candidate, kind, ref, act, via);
+        }
+        break;
+      }
+      case 'act': {
+        // "Under the Act": the name pattern takes in the words before a back-reference too
+        const backReference = m[0].match(/(?:^|\s)((?:[Tt]he(?:\s+said)?|[Tt]his|[Tt]hat)\s+Act)$/);
+        if (backReference) {
+          const start = candidate.start + m[0].length - backReference[1].length;
+          await push(candidate, 'act', null, context, fromContext(), undefined, start);
+          break;
+        }
+        const { act, offset } = namedAct(m[0]);
+        context = act;
+        await push(candidate, 'act', null, act, 'named', undefined, candidate.start + offset);
+        break;
+      }
+      case 'constitution':
+        context = constitution;
+        await push(candidate, 'act', null, constitution, 'named');
+        break;
+      case 'back_reference':
+        await push(candidate, 'act', null, context, fromContext());
+        break;
+      case 'cap':
+        await push(candidate, 'cap', null, null, null, unverified(
+          m[0],
+          `${m[0]} is a chapter of the Laws of Kenya; chapter numbers are not recorded in this database, so cite the Act by name to validate it.`,
+        ));
+        break;
+      case 'legal_notice':
+        await push(candidate, 'legal_notice', null, null, null, validateLegalNotice(db, m[1], m[2]));
+        break;
+    }
+  }
+
+  const summary: ExtractCitationsResult['summary'] = {
+    total: citations.length, valid: 0, invalid: 0, repealed: 0, suspended: 0, not_in_force: 0, unverified: 0,
+  };
+  for (const citation of citations) summary[citation.outcome]++;
+
+  return {
+    results: { citations, summary },
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(notes.length > 0 ? { note: notes.join(' ') } : {}),
+    },
+  };
+}
@@ -22,15 +22,19 @@ export async function formatCitationTool(
   const format = input.format ?? 'full';
   const trimmed = input.citation.trim();
 
+  // Section number with optional subsection pinpoint, e.g. "26(1)(b)"
+  const num = String.raw`(\d+[A-Za-z]*(?:\s*\(\s*[0-9A-Za-z]+\s*\))*)`;
+
   // Parse "Section N, <Act>" or "s N <Act>"
-  const secFirst = trimmed.match(/^(?:Section|s|sec\.?)\s*(\d+[A-Za-z]*)\s*[,;]?\s+(.+)$/i);
+  const secFirst = trimmed.match(new RegExp(String.raw`^(?:Section|s|sec\.?)\s*${num}\s*[,;]?\s+(.+)$`, 'i'));
   // Parse "<Act>, Section N" or "<Act> Section N"
-  const secLast = trimmed.match(/^(.+?)[,;]?\s*(?:Section|s|sec\.?)\s*(\d+[A-Za-z]*)$/i);
+  const secLast = trimmed.match(new RegExp(String.raw`^(.+?)[,;]?\s*(?:Section|s|sec\.?)\s*${num}$`, 'i'));
   // Parse "Article N, <Act>"
-  const artFirst = trimmed.match(/^(?:Article|Art\.?)\s*(\d+[A-Za-z]*)\s*[,;]?\s+(.+)$/i);
-  const artLast = trimmed.match(/^(.+?)[,;]?\s*(?:Article|Art\.?)\s*(\d+[A-Za-z]*)$/i);
+  const artFirst = trimmed.match(new RegExp(String.raw`^(?:Article|Art\.?)\s*${num}\s*[,;]?\s+(.+)$`, 'i'));
+  const artLast = trimmed.match(new RegExp(String.raw`^(.+?)[,;]?\s*(?:Article|Art\.?)\s*${num}$`, 'i'));
 
-  const section = secFirst?.[1] ?? secLast?.[2] ?? artFirst?.[1] ?? artLast?.[2];
+  const rawSection = secFirst?.[1] ?? secLast?.[2] ?? artFirst?.[1] ?? artLast?.[2];
+  const section = rawSection?.replace(/\s+/g, '');
   const law = secFirst?.[2] ?? secLast?.[1] ?? artFirst?.[2] ?? artLast?.[1] ?? trimmed;
   const isArticle = !!(artFirst || artLast);
 
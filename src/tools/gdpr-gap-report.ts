@@ -0,0 +1,204 @@
+/**
+ * gdpr_gap_report — Compare a Kenyan statute with the GDPR article by article.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GdprGapReportInput {
+  document_id?: string;
+}
+
+export interface GdprMappedProvision {
+  provision_ref: string;
+  title: string | null;
+  correspondence: 'equivalent' | 'narrower' | 'broader';
+  note: string | null;
+}
+
+export interface GdprArticleComparison {
+  article: string;
+  citation: string;
+  provisions: GdprMappedProvision[];
+  note: string | null;
+  /** False when the article's GDPR text is not in this database; the comparison rests on the curated mapping alone. */
+  eu_text_available: boolean;
+}
+
+export interface GdprGapReport {
+  document_id: string;
+  document_title: string;
+  eu_document_id: string;
+  articles_compared: number;
+  /** Articles by their closest Kenyan counterpart. */
+  coverage: { equivalent: number; broader: number; narrower: number; absent: number };
+  /** GDPR articles with no Kenyan counterpart. */
+  absent: GdprArticleComparison[];
+  /** GDPR articles the statute covers only in part. */
+  partial: GdprArticleComparison[];
+  /** Sections with no counterpart in the GDPR. */
+  beyond_gdpr: { provision_ref: string; title: string | null; note: string | null }[];
+}
+
+const GDPR_ID = 'regulation:2016/679';
+const DEFAULT_DOCUMENT = 'data-protection-act-2019';
+
+/** Closest first, so an article takes the best correspondence among its provisions. */
+const CORRESPONDENCE_RANK = ['equivalent', 'broader', 'narrower'] as const;
+
+const UNMAPPED_NOTE =
+  'GDPR articles governing the EU institutions (cooperation and consistency, the European Data Protection Board, ' +
+  'delegated acts and final provisions) have no national counterpart and are not compared.';
+
+interface MappingRow {
+  eu_article: string | null;
+  full_citation: string | null;
+  reference_type: string;
+  reference_context: string | null;
+  correspondence: string | null;
+  provision_ref: string | null;
+  title: string | null;
+}
+
+interface GapRow {
+  eu_article: string;
+  full_citation: string | null;
+  note: string | null;
+}
+
+function articleOrder(a: string, b: string): number {
+  return parseInt(a, 10) - parseInt(b, 10) || a.localeCompare(b);
+}
+
+export async function gdprGapReport(
+  db: InstanceType<typeof Database>,
+  input: GdprGapReportInput,
+): Promise<ToolResponse<GdprGapReport | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id ?? DEFAULT_DOCUMENT);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: { ...generateResponseMetadata(db), ...{ note: `Document not found: "${input.document_id}"` } },
+    };
+  }
+
+  let rows: MappingRow[];
+  let gaps: GapRow[];
+  let withText: Set<string>;
+  try {
+    rows = db.prepare(`
+      SELECT
+        er.eu_article,
+        er.full_citation,
+        er.reference_type,
+        er.reference_context,
+        er.correspondence,
+        lp.provision_ref,
+        lp.title
+      FROM eu_references er
+      LEFT JOIN legal_provisions lp ON lp.id = er.provision_id
+      WHERE er.document_id = ? AND er.eu_document_id = ?
+        AND (er.correspondence IS NOT NULL OR er.reference_type = 'supplements')
+      ORDER BY lp.id
+    `).all(resolvedId, GDPR_ID) as MappingRow[];
+    gaps = db.prepare(
+      'SELECT eu_article, full_citation, note FROM eu_gaps WHERE document_id = ? AND eu_document_id = ?'
+    ).all(resolvedId, GDPR_ID) as GapRow[];
+    withText = new Set((db.prepare('SELECT article FROM eu_provisions WHERE eu_document_id = ?')
+      .all(GDPR_ID) as { article: string }[]).map(r => r.article));
+  } catch {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'Curated GDPR mappings are not available in this database; rebuild it with npm run build:db.' },
+      },
+    };
+  }
+
+  const doc = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(resolvedId) as { title: string };
+  if (rows.length === 0 && gaps.length === 0) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No curated GDPR mapping exists for ${doc.title}.` },
+      },
+    };
+  }
+
+  const articles = new Map<string, GdprArticleComparison>();
+  const beyond: GdprGapReport['beyond_gdpr'] = [];
+  for (const row of rows) {
+    if (row.reference_type === 'supplements') {
+      beyond.push({ provision_ref: row.provision_ref!, title: row.title, note: row.reference_context });
+      continue;
+    }
+    const article = row.eu_article!;
+    let comparison = articles.get(article);
+    if (!comparison) {
+      comparison = {
+        article,
+        citation: row.full_citation ?? `GDPR, Article ${article}`,
+        provisions: [],
+        note: null,
+        eu_text_available: withText.has(article),
+      };
+      articles.set(article, comparison);
+    }
+    comparison.provisions.push({
+      provision_ref: row.provision_ref!,
+      title: row.title,
+      correspondence: row.correspondence as GdprMappedProvision['correspondence'],
+      note: row.reference_context,
+    });
+  }
+
+  for (const gap of gaps) {
+    articles.set(gap.eu_article, {
+      article: gap.eu_article,
+      citation: gap.full_citation ?? `GDPR, Article ${gap.eu_article}`,
+      provisions: [],
+      note: gap.note,
+      eu_text_available: withText.has(gap.eu_article),
+    });
+  }
+
+  const coverage = { equivalent: 0, broader: 0, narrower: 0, absent: 0 };
+  const absent: GdprArticleComparison[] = [];
+  const partial: GdprArticleComparison[] = [];
+  for (const comparison of [...articles.values()].sort((a, b) => articleOrder(a.article, b.article))) {
+    const closest = CORRESPONDENCE_RANK.find(c => comparison.provisions.some(p => p.correspondence === c));
+    if (!closest) {
+      coverage.absent++;
+      absent.push(comparison);
+      continue;
+    }
+    coverage[closest]++;
+    if (closest === 'narrower') partial.push(comparison);
+  }
+
+  const notes = [UNMAPPED_NOTE];
+  const withoutText = [...articles.values()].filter(a => !a.eu_text_available).length;
+  if (withoutText > 0) {
+    notes.push(
+      `The GDPR text is missing from this database for ${withoutText} of the ${articles.size} articles compared ` +
+      '(eu_text_available: false); those rows rest on the curated mapping alone, so read the article on EUR-Lex before relying on them.',
+    );
+  }
+
+  return {
+    results: {
+      document_id: resolvedId,
+      document_title: doc.title,
+      eu_document_id: GDPR_ID,
+      articles_compared: articles.size,
+      coverage,
+      absent,
+      partial,
+      beyond_gdpr: beyond,
+    },
+    _metadata: { ...generateResponseMetadata(db), ...{ note: notes.join(' ') } },
+  };
+}
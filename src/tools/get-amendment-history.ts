@@ -0,0 +1,119 @@
+/**
+ * get_amendment_history — Instruments that amended a Kenyan statute or provision, oldest first.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { parsePinpoint } from '../utils/pinpoint.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetAmendmentHistoryInput {
+  document_id: string;
+  provision_ref?: string;
+  limit?: number;
+}
+
+export interface AmendmentEvent {
+  provision_ref: string | null;
+  provision_title: string | null;
+  /** As cited in the consolidated text, e.g. "Act No. 18 of 2018". */
+  amending_instrument: string;
+  amending_title: string | null;
+  /** Set when the amending instrument is itself in the database. */
+  amending_document_id: string | null;
+  /** Section or Schedule of the amending instrument, e.g. "s. 31", "Sch.". */
+  amending_provision: string | null;
+  amendment_date: string | null;
+  year: string | null;
+  change_type: 'amended' | 'inserted' | 'substituted' | 'deleted' | 'repealed';
+  /** 'annotation' events are read from the consolidated text and are dated by year only. */
+  source: 'annotation' | 'curated';
+  note: string | null;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+export async function getAmendmentHistory(
+  db: InstanceType<typeof Database>,
+  input: GetAmendmentHistoryInput,
+): Promise<ToolResponse<AmendmentEvent[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  let provisionRef: string | null = null;
+  if (input.provision_ref) {
+    // Amendments are recorded per section; a pinpoint narrows to its section
+    const ref = parsePinpoint(input.provision_ref).base;
+    const row = db.prepare(
+      'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?) AND valid_to IS NULL'
+    ).get(resolvedId, ref, `s${ref}`, `art${ref}`, ref) as { provision_ref: string } | undefined;
+    if (!row) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `Provision "${input.provision_ref}" not found in document "${resolvedId}"` },
+        },
+      };
+    }
+    provisionRef = row.provision_ref;
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let sql = `
+    SELECT
+      a.provision_ref,
+      lp.title as provision_title,
+      a.amending_instrument,
+      COALESCE(a.amending_title, ad.title) as amending_title,
+      a.amending_document_id,
+      a.amending_provision,
+      a.amendment_date,
+      a.year,
+      a.change_type,
+      a.source,
+      a.note
+    FROM amendments a
+    LEFT JOIN legal_documents ad ON ad.id = a.amending_document_id
+    LEFT JOIN legal_provisions lp
+      ON lp.document_id = a.document_id AND lp.provision_ref = a.provision_ref AND lp.valid_to IS NULL
+    WHERE a.document_id = ?
+  `;
+  const params: (string | number)[] = [resolvedId];
+
+  if (provisionRef) {
+    // Amendments to the Act as a whole apply to every provision
+    sql += ' AND (a.provision_ref = ? OR a.provision_ref IS NULL)';
+    params.push(provisionRef);
+  }
+
+  sql += ' ORDER BY COALESCE(a.amendment_date, a.year), lp.id, a.id LIMIT ?';
+  params.push(limit);
+
+  const results = db.prepare(sql).all(...params) as AmendmentEvent[];
+  if (results.length === 0) {
+    return {
+      results,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{
+          note: provisionRef
+            ? `No amendments recorded for ${provisionRef} of "${resolvedId}"`
+            : `No amendments recorded for "${resolvedId}"`,
+        },
+      },
+    };
+  }
+
+  return { results, _metadata: generateResponseMetadata(db) };
+}
@@ -0,0 +1,90 @@
+/**
+ * get_case — Retrieve a Kenyan judgment by neutral citation or case ID.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetCaseInput {
+  case_id: string;
+  include_full_text?: boolean;
+}
+
+export interface CaseResult {
+  case_id: string;
+  neutral_citation: string | null;
+  case_number: string | null;
+  title: string;
+  parties: string[];
+  court: string;
+  court_code: string | null;
+  decision_date: string | null;
+  judges: string[];
+  summary: string | null;
+  full_text?: string;
+  url: string | null;
+}
+
+interface CaseRow extends Omit<CaseResult, 'parties' | 'judges'> {
+  parties: string | null;
+  judges: string | null;
+  full_text: string;
+}
+
+const CASE_COLUMNS = `
+  case_id, neutral_citation, case_number, title, parties, court, court_code,
+  decision_date, judges, summary, full_text, url
+`;
+
+/**
+ * Resolve a case reference. Accepts the internal case ID ("kehc-2023-1234"),
+ * the neutral citation ("[2023] KEHC 1234 (KLR)", with or without the report
+ * suffix), a case number, or part of the case title.
+ */
+function findCase(db: InstanceType<typeof Database>, ref: string): CaseRow | undefined {
+  const trimmed = ref.trim();
+
+  const byId = db.prepare(`SELECT ${CASE_COLUMNS} FROM case_law WHERE case_id = ?`).get(trimmed) as CaseRow | undefined;
+  if (byId) return byId;
+
+  const neutral = trimmed.match(/\[(\d{4})\]\s+(KE[A-Z]+)\s+(\d+)/i);
+  if (neutral) {
+    const byCitation = db.prepare(`SELECT ${CASE_COLUMNS} FROM case_law WHERE case_id = ?`)
+      .get(`${neutral[2].toLowerCase()}-${neutral[1]}-${neutral[3]}`) as CaseRow | undefined;
+    if (byCitation) return byCitation;
+  }
+
+  const byCaseNumber = db.prepare(`SELECT ${CASE_COLUMNS} FROM case_law WHERE LOWER(case_number) = LOWER(?) LIMIT 1`)
+    .get(trimmed) as CaseRow | undefined;
+  if (byCaseNumber) return byCaseNumber;
+
+  return db.prepare(`SELECT ${CASE_COLUMNS} FROM case_law WHERE title LIKE ? ORDER BY decision_date DESC LIMIT 1`)
+    .get(`%${trimmed}%`) as CaseRow | undefined;
+}
+
+export async function getCase(
+  db: InstanceType<typeof Database>,
+  input: GetCaseInput,
+): Promise<ToolResponse<CaseResult | null>> {
+  const row = input.case_id ? findCase(db, input.case_id) : undefined;
+  if (!row) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No judgment found matching "${input.case_id}"` },
+      },
+    };
+  }
+
+  const { full_text, parties, judges, ...rest } = row;
+  return {
+    results: {
+      ...rest,
+      parties: parties ? JSON.parse(parties) as string[] : [],
+      judges: judges ? JSON.parse(judges) as string[] : [],
+      ...(input.include_full_text === false ? {} : { full_text }),
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * get_cross_references — Outgoing and incoming citations for a statute or provision.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetCrossReferencesInput {
+  document_id: string;
+  provision_ref?: string;
+  direction?: 'outgoing' | 'incoming' | 'both';
+  ref_type?: 'references' | 'amended_by' | 'implements' | 'see_also';
+  limit?: number;
+}
+
+export interface CrossReferenceResult {
+  source_document_id: string;
+  source_document_title: string;
+  source_provision_ref: string | null;
+  source_provision_title: string | null;
+  target_document_id: string;
+  target_document_title: string;
+  target_provision_ref: string | null;
+  target_provision_title: string | null;
+  ref_type: string;
+}
+
+export interface GetCrossReferencesResult {
+  document_id: string;
+  provision_ref: string | null;
+  outgoing: CrossReferenceResult[];
+  incoming: CrossReferenceResult[];
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+const BASE_SELECT = `
+  SELECT
+    xr.source_document_id,
+    sd.title as source_document_title,
+    xr.source_provision_ref,
+    sp.title as source_provision_title,
+    xr.target_document_id,
+    td.title as target_document_title,
+    xr.target_provision_ref,
+    tp.title as target_provision_title,
+    xr.ref_type
+  FROM cross_references xr
+  JOIN legal_documents sd ON sd.id = xr.source_document_id
+  JOIN legal_documents td ON td.id = xr.target_document_id
+  LEFT JOIN legal_provisions sp
+    ON sp.document_id = xr.source_document_id AND sp.provision_ref = xr.source_provision_ref AND sp.valid_to IS NULL
+  LEFT JOIN legal_provisions tp
+    ON tp.document_id = xr.target_document_id AND tp.provision_ref = xr.target_provision_ref AND tp.valid_to IS NULL
+`;
+
+function resolveProvisionRef(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  ref: string,
+): string | null {
+  const trimmed = ref.trim();
+  const row = db.prepare(
+    'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?) AND valid_to IS NULL'
+  ).get(documentId, trimmed, `s${trimmed}`, `art${trimmed}`, trimmed) as { provision_ref: string } | undefined;
+  return row?.provision_ref ?? null;
+}
+
+export async function getCrossReferences(
+  db: InstanceType<typeof Database>,
+  input: GetCrossReferencesInput,
+): Promise<ToolResponse<GetCrossReferencesResult | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  let provisionRef: string | null = null;
+  if (input.provision_ref) {
+    provisionRef = resolveProvisionRef(db, resolvedId, input.provision_ref);
+    if (!provisionRef) {
+      return {
+        results: null,
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `Provision "${input.provision_ref}" not found in document "${resolvedId}"` },
+        },
+      };
+    }
+  }
+
+  const direction = input.direction ?? 'both';
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const query = (side: 'source' | 'target'): CrossReferenceResult[] => {
+    let sql = `${BASE_SELECT} WHERE xr.${side}_document_id = ?`;
+    const params: (string | number)[] = [resolvedId];
+
+    if (provisionRef) {
+      sql += ` AND xr.${side}_provision_ref = ?`;
+      params.push(provisionRef);
+    }
+
+    if (input.ref_type) {
+      sql += ' AND xr.ref_type = ?';
+      params.push(input.ref_type);
+    }
+
+    sql += ' ORDER BY xr.id LIMIT ?';
+    params.push(limit);
+
+    return db.prepare(sql).all(...params) as CrossReferenceResult[];
+  };
+
+  return {
+    results: {
+      document_id: resolvedId,
+      provision_ref: provisionRef,
+      outgoing: direction === 'incoming' ? [] : query('source'),
+      incoming: direction === 'outgoing' ? [] : query('target'),
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
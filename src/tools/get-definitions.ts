@@ -0,0 +1,197 @@
+/**
+ * get_definitions — Look up statutory definitions from interpretation sections.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDefinitionsInput {
+  term: string;
+  document_id?: string;
+  match?: 'exact' | 'prefix' | 'fts';
+  limit?: number;
+}
+
+export interface DefinitionResult {
+  term: string;
+  document_id: string;
+  document_title: string;
+  definition: string;
+  source_provision: string | null;
+  match_type: 'exact' | 'prefix' | 'fts';
+  /** Other statutes that define the same term with different wording. */
+  defined_differently_in: string[];
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+type DefinitionRow = Omit<DefinitionResult, 'match_type' | 'defined_differently_in'>;
+
+const BASE_SELECT = `
+  SELECT
+    d.term,
+    d.document_id,
+    ld.title as document_title,
+    d.definition,
+    d.source_provision
+  FROM definitions d
+  JOIN legal_documents ld ON ld.id = d.document_id
+`;
+
+function normalizeDefinition(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function findExact(
+  db: InstanceType<typeof Database>,
+  term: string,
+  documentId: string | null,
+  limit: number,
+): DefinitionRow[] {
+  let sql = `${BASE_SELECT} WHERE LOWER(d.term) = LOWER(?)`;
+  const params: (string | number)[] = [term];
+  if (documentId) {
+    sql += ' AND d.document_id = ?';
+    params.push(documentId);
+  }
+  sql += ' ORDER BY d.document_id LIMIT ?';
+  params.push(limit);
+  return db.prepare(sql).all(...params) as DefinitionRow[];
+}
+
+function findPrefix(
+  db: InstanceType<typeof Database>,
+  term: string,
+  documentId: string | null,
+  limit: number,
+): DefinitionRow[] {
+  let sql = `${BASE_SELECT} WHERE LOWER(d.term) LIKE LOWER(?)`;
+  const params: (string | number)[] = [`${term}%`];
+  if (documentId) {
+    sql += ' AND d.document_id = ?';
+    params.push(documentId);
+  }
+  sql += ' ORDER BY LENGTH(d.term), d.term, d.document_id LIMIT ?';
+  params.push(limit);
+  return db.prepare(sql).all(...params) as DefinitionRow[];
+}
+
+function findFts(
+  db: InstanceType<typeof Database>,
+  term: string,
+  documentId: string | null,
+  limit: number,
+): DefinitionRow[] {
+  for (const ftsQuery of buildFtsQueryVariants(sanitizeFtsInput(term))) {
+    let sql = `
+      SELECT
+        d.term,
+        d.document_id,
+        ld.title as document_title,
+        d.definition,
+        d.source_provision
+      FROM definitions_fts
+      JOIN definitions d ON d.id = definitions_fts.rowid
+      JOIN legal_documents ld ON ld.id = d.document_id
+      WHERE definitions_fts MATCH ?
+    `;
+    const params: (string | number)[] = [ftsQuery];
+    if (documentId) {
+      sql += ' AND d.document_id = ?';
+      params.push(documentId);
+    }
+    sql += ' ORDER BY bm25(definitions_fts) LIMIT ?';
+    params.push(limit);
+
+    try {
+      const rows = db.prepare(sql).all(...params) as DefinitionRow[];
+      if (rows.length > 0) return rows;
+    } catch {
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+  return [];
+}
+
+/**
+ * For each returned definition, list the other statutes that define the same
+ * term (case-insensitive) with materially different wording.
+ */
+function findDivergentDefinitions(
+  db: InstanceType<typeof Database>,
+  row: DefinitionRow,
+): string[] {
+  const others = db.prepare(
+    'SELECT document_id, definition FROM definitions WHERE LOWER(term) = LOWER(?) AND document_id != ? ORDER BY document_id'
+  ).all(row.term, row.document_id) as { document_id: string; definition: string }[];
+
+  const own = normalizeDefinition(row.definition);
+  return others
+    .filter(o => normalizeDefinition(o.definition) !== own)
+    .map(o => o.document_id);
+}
+
+export async function getDefinitions(
+  db: InstanceType<typeof Database>,
+  input: GetDefinitionsInput,
+): Promise<ToolResponse<DefinitionResult[]>> {
+  const term = input.term?.trim().replace(/^["“]|["”]$/g, '') ?? '';
+  if (term.length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  let documentId: string | null = null;
+  if (input.document_id) {
+    documentId = resolveDocumentId(db, input.document_id);
+    if (!documentId) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No document found matching "${input.document_id}"` },
+        },
+      };
+    }
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const strategies: { type: DefinitionResult['match_type']; find: typeof findExact }[] = [
+    { type: 'exact', find: findExact },
+    { type: 'prefix', find: findPrefix },
+    { type: 'fts', find: findFts },
+  ];
+  const selected = input.match ? strategies.filter(s => s.type === input.match) : strategies;
+
+  for (const strategy of selected) {
+    const rows = strategy.find(db, term, documentId, limit);
+    if (rows.length > 0) {
+      const results = rows.map(row => ({
+        ...row,
+        match_type: strategy.type,
+        defined_differently_in: findDivergentDefinitions(db, row),
+      }));
+      const hasConflicts = results.some(r => r.defined_differently_in.length > 0);
+      return {
+        results,
+        _metadata: hasConflicts
+          ? {
+            ...generateResponseMetadata(db),
+            ...{ note: 'This term is defined differently in other statutes. Apply the definition of the Act being construed.' },
+          }
+          : generateResponseMetadata(db),
+      };
+    }
+  }
+
+  return {
+    results: [],
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...{ note: `No definition found for "${term}"` },
+    },
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * get_international_basis — Get the treaties, conventions and standards behind a Kenyan statute.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetInternationalBasisInput {
+  document_id: string;
+  provision_ref?: string;
+  instrument_type?: 'treaty' | 'convention' | 'recommendation' | 'model_law' | 'regional_protocol';
+}
+
+export interface InternationalReference {
+  /** Null when the instrument is mapped to the statute as a whole. */
+  provision_ref: string | null;
+  instrument_article: string | null;
+  reference_type: 'implements' | 'references';
+  /** curated mappings, or mentions extracted from the provision text. */
+  source: 'curated' | 'extracted';
+  note: string | null;
+}
+
+export interface InternationalBasisResult {
+  instrument_id: string;
+  title: string;
+  short_name: string | null;
+  instrument_type: string;
+  organisation: string;
+  kenya_status: string | null;
+  references: InternationalReference[];
+}
+
+interface ReferenceRow extends InternationalReference {
+  instrument_id: string;
+  title: string;
+  short_name: string | null;
+  instrument_type: string;
+  organisation: string;
+  kenya_status: string | null;
+}
+
+export async function getInternationalBasis(
+  db: InstanceType<typeof Database>,
+  input: GetInternationalBasisInput,
+): Promise<ToolResponse<InternationalBasisResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: `Document not found: "${input.document_id}"` } },
+    };
+  }
+
+  let sql = `
+    SELECT
+      ii.id as instrument_id,
+      ii.title,
+      ii.short_name,
+      ii.instrument_type,
+      ii.organisation,
+      ii.kenya_status,
+      lp.provision_ref,
+      ir.instrument_article,
+      ir.reference_type,
+      ir.source,
+      ir.reference_context as note
+    FROM international_references ir
+    JOIN international_instruments ii ON ii.id = ir.instrument_id
+    LEFT JOIN legal_provisions lp ON lp.id = ir.provision_id
+    WHERE ir.document_id = ?
+  `;
+  const params: string[] = [resolvedId];
+
+  if (input.provision_ref) {
+    sql += ' AND (lp.provision_ref = ? OR ir.provision_id IS NULL)';
+    params.push(input.provision_ref);
+  }
+  if (input.instrument_type) {
+    sql += ' AND ii.instrument_type = ?';
+    params.push(input.instrument_type);
+  }
+  sql += ' ORDER BY ii.id, ir.provision_id IS NOT NULL, ir.provision_id, ir.instrument_article';
+
+  let rows: ReferenceRow[];
+  try {
+    rows = db.prepare(sql).all(...params) as ReferenceRow[];
+  } catch {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'International instruments are not available in this database; rebuild it with npm run build:db.' },
+      },
+    };
+  }
+
+  const byInstrument = new Map<string, InternationalBasisResult>();
+  for (const row of rows) {
+    let result = byInstrument.get(row.instrument_id);
+    if (!result) {
+      result = {
+        instrument_id: row.instrument_id,
+        title: row.title,
+        short_name: row.short_name,
+        instrument_type: row.instrument_type,
+        organisation: row.organisation,
+        kenya_status: row.kenya_status,
+        references: [],
+      };
+      byInstrument.set(row.instrument_id, result);
+    }
+    result.references.push({
+      provision_ref: row.provision_ref,
+      instrument_article: row.instrument_article,
+      reference_type: row.reference_type,
+      source: row.source,
+      note: row.note,
+    });
+  }
+
+  const results = [...byInstrument.values()].sort((a, b) => b.references.length - a.references.length);
+  return { results, _metadata: generateResponseMetadata(db) };
+}
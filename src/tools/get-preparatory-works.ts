@@ -0,0 +1,90 @@
+/**
+ * get_preparatory_works — Bills, Memoranda of Objects and Reasons and debates behind a statute.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type PreparatoryWorkType = 'bill' | 'memorandum' | 'hansard' | 'committee_report';
+
+export interface GetPreparatoryWorksInput {
+  document_id: string;
+  work_type?: PreparatoryWorkType;
+  include_full_text?: boolean;
+}
+
+export interface PreparatoryWorkResult {
+  statute_id: string | null;
+  bill_id: string;
+  bill_title: string;
+  bill_number: string | null;
+  work_type: PreparatoryWorkType;
+  title: string;
+  date: string | null;
+  summary: string | null;
+  full_text?: string | null;
+  url: string | null;
+}
+
+/** Legislative order: the Bill and its memorandum, then committee stage, then debates. */
+const WORK_TYPE_ORDER = `CASE pw.work_type
+  WHEN 'bill' THEN 0 WHEN 'memorandum' THEN 1 WHEN 'committee_report' THEN 2 ELSE 3 END`;
+
+export async function getPreparatoryWorks(
+  db: InstanceType<typeof Database>,
+  input: GetPreparatoryWorksInput,
+): Promise<ToolResponse<PreparatoryWorkResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  // Accept either the enacted statute or the Bill itself
+  let sql = `
+    SELECT
+      pw.statute_id,
+      pw.prep_document_id as bill_id,
+      bill.title as bill_title,
+      bill.short_name as bill_number,
+      pw.work_type,
+      pw.title,
+      pw.date,
+      pw.summary,
+      pw.full_text,
+      pw.url
+    FROM preparatory_works pw
+    JOIN legal_documents bill ON bill.id = pw.prep_document_id
+    WHERE (pw.statute_id = ? OR pw.prep_document_id = ?)
+  `;
+  const params: string[] = [resolvedId, resolvedId];
+
+  if (input.work_type) {
+    sql += ' AND pw.work_type = ?';
+    params.push(input.work_type);
+  }
+
+  sql += ` ORDER BY bill.issued_date, pw.prep_document_id, ${WORK_TYPE_ORDER}, pw.date, pw.id`;
+
+  const rows = db.prepare(sql).all(...params) as (PreparatoryWorkResult & { full_text: string | null })[];
+  const includeFullText = input.include_full_text ?? false;
+  const results = rows.map(({ full_text, ...rest }) => (includeFullText ? { ...rest, full_text } : rest));
+
+  if (results.length === 0) {
+    return {
+      results,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No preparatory works recorded for "${resolvedId}"` },
+      },
+    };
+  }
+
+  return { results, _metadata: generateResponseMetadata(db) };
+}
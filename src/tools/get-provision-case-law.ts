@@ -0,0 +1,104 @@
+/**
+ * get_provision_case_law — Judgments that interpreted, applied, suspended or struck down a provision.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type JudicialTreatment = 'interpreted' | 'declared_unconstitutional' | 'suspended' | 'applied' | 'cited';
+
+export interface GetProvisionCaseLawInput {
+  document_id: string;
+  provision_ref: string;
+  treatment?: JudicialTreatment;
+  limit?: number;
+}
+
+export interface ProvisionCaseLawResult {
+  case_id: string;
+  neutral_citation: string | null;
+  title: string;
+  court: string;
+  decision_date: string | null;
+  provision_ref: string;
+  treatment: JudicialTreatment;
+  context: string | null;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Judicial treatments recorded for one provision, most recent decision first.
+ * Shared with get_provision's include_case_law option.
+ */
+export function findProvisionCaseLaw(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+  treatment?: JudicialTreatment,
+  limit = DEFAULT_LIMIT,
+): ProvisionCaseLawResult[] {
+  let sql = `
+    SELECT
+      cl.case_id,
+      cl.neutral_citation,
+      cl.title,
+      cl.court,
+      cl.decision_date,
+      clp.provision_ref,
+      clp.treatment,
+      clp.context
+    FROM case_law_provisions clp
+    JOIN case_law cl ON cl.case_id = clp.case_id
+    WHERE clp.document_id = ? AND clp.provision_ref = ?
+  `;
+  const params: (string | number)[] = [documentId, provisionRef];
+
+  if (treatment) {
+    sql += ' AND clp.treatment = ?';
+    params.push(treatment);
+  }
+
+  sql += ' ORDER BY cl.decision_date DESC, cl.case_id LIMIT ?';
+  params.push(limit);
+
+  return db.prepare(sql).all(...params) as ProvisionCaseLawResult[];
+}
+
+export async function getProvisionCaseLaw(
+  db: InstanceType<typeof Database>,
+  input: GetProvisionCaseLawInput,
+): Promise<ToolResponse<ProvisionCaseLawResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  const ref = input.provision_ref.trim();
+  const provision = db.prepare(
+    "SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?) AND valid_to IS NULL"
+  ).get(resolvedId, ref, `s${ref}`, `art${ref}`, ref) as { provision_ref: string } | undefined;
+
+  if (!provision) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Provision "${ref}" not found in document "${resolvedId}"` },
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const rows = findProvisionCaseLaw(db, resolvedId, provision.provision_ref, input.treatment, limit);
+
+  return { results: rows, _metadata: generateResponseMetadata(db) };
+}
@@ -45,7 +45,7 @@ export async function getProvisionEUBasis(
   // Find the provision
   const ref = input.provision_ref.trim();
   const provision = db.prepare(
-    "SELECT id FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?)"
+    "SELECT id FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?) AND valid_to IS NULL"
   ).get(resolvedId, ref, `s${ref}`, `art${ref}`, ref) as { id: number } | undefined;
 
   if (!provision) {
@@ -4,13 +4,21 @@
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { normalizeAsOfDate, provisionValidityClause } from '../utils/as-of-date.js';
+import { parsePinpoint, structureFromMetadata, findPinpoint, renderPinpoint, formatPinpoint, listPinpoints } from '../utils/pinpoint.js';
+import { normalizeLanguage, getProvisionTranslation, LANGUAGE_NAMES, type Language } from '../utils/language.js';
+import { findProvisionCaseLaw, type ProvisionCaseLawResult } from './get-provision-case-law.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { upgradeMessage } from '../capabilities.js';
 
 export interface GetProvisionInput {
   document_id: string;
   section?: string;
   provision_ref?: string;
   as_of_date?: string;
+  include_case_law?: boolean;
+  /** "en" (default) or "sw"; falls back to English where no Kiswahili text is stored. */
+  language?: string;
 }
 
 export interface ProvisionResult {
@@ -21,8 +29,38 @@ export interface ProvisionResult {
   section: string;
   title: string | null;
   content: string;
+  /** Language of title and content. */
+  language: Language;
   article_number?: string;
+  /** Subsection/paragraph pinpoint, e.g. "(1)(b)"; content is limited to that unit. */
+  pinpoint?: string;
+  /** Enclosing text that introduces the pinpointed unit. */
+  lead_in?: string;
   url?: string;
+  valid_from?: string | null;
+  valid_to?: string | null;
+  case_law?: ProvisionCaseLawResult[];
+}
+
+function toProvisionResult(
+  p: Record<string, unknown>,
+  documentId: string,
+  doc: { title: string; url: string | null },
+): ProvisionResult {
+  return {
+    document_id: documentId,
+    document_title: doc.title,
+    provision_ref: String(p.provision_ref),
+    chapter: p.chapter as string | null,
+    section: String(p.section),
+    title: p.title as string | null,
+    content: String(p.content),
+    language: 'en',
+    article_number: String(p.provision_ref).replace(/^(?:s|art|reg)/, ''),
+    url: doc.url ?? undefined,
+    valid_from: (p.valid_from as string | null) ?? null,
+    valid_to: (p.valid_to as string | null) ?? null,
+  };
 }
 
 export async function getProvision(
@@ -47,58 +85,116 @@ export async function getProvision(
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (input.as_of_date && !asOfDate) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Invalid as_of_date "${input.as_of_date}". Use ISO 8601 (YYYY-MM-DD).` },
+      },
+    };
+  }
+  const language = normalizeLanguage(input.language);
+  if (!language) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Unsupported language "${input.language}". Use "en" or "sw".` },
+      },
+    };
+  }
+
+  // Swap in the requested language's title and text; translations cover the current wording only
+  const localize = (p: Record<string, unknown>): { row: Record<string, unknown>; language: Language } => {
+    if (language === 'en' || p.valid_to) return { row: p, language: 'en' };
+    const translation = getProvisionTranslation(db, resolvedId, String(p.provision_ref), language);
+    if (!translation) return { row: p, language: 'en' };
+    return {
+      row: { ...p, title: translation.title ?? p.title, content: translation.content, metadata: translation.metadata },
+      language,
+    };
+  };
+
+  const validity = provisionValidityClause('lp', asOfDate);
+  const findOne = (where: string, ...params: string[]) => db.prepare(
+    `SELECT * FROM legal_provisions lp WHERE lp.document_id = ? AND ${where} AND ${validity.sql}`
+  ).get(resolvedId, ...params, ...validity.params) as Record<string, unknown> | undefined;
+
   // Specific provision lookup
   const ref = input.provision_ref ?? input.section;
   if (ref) {
-    const refTrimmed = ref.trim();
+    const pinpoint = parsePinpoint(ref);
+    const refTrimmed = pinpoint.base;
 
     // Try direct provision_ref match
-    let provision = db.prepare(
-      'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
-    ).get(resolvedId, refTrimmed) as Record<string, unknown> | undefined;
+    let provision = findOne('lp.provision_ref = ?', refTrimmed);
 
     // Try with "s" prefix (e.g., "1" -> "s1") — Kenyan "Section" convention
     if (!provision) {
-      provision = db.prepare(
-        'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
-      ).get(resolvedId, `s${refTrimmed}`) as Record<string, unknown> | undefined;
+      provision = findOne('lp.provision_ref = ?', `s${refTrimmed}`);
     }
 
     // Try with "art" prefix (e.g., "1" -> "art1") — for Constitution articles
     if (!provision) {
-      provision = db.prepare(
-        'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
-      ).get(resolvedId, `art${refTrimmed}`) as Record<string, unknown> | undefined;
+      provision = findOne('lp.provision_ref = ?', `art${refTrimmed}`);
     }
 
     // Try section column match
     if (!provision) {
-      provision = db.prepare(
-        'SELECT * FROM legal_provisions WHERE document_id = ? AND section = ?'
-      ).get(resolvedId, refTrimmed) as Record<string, unknown> | undefined;
+      provision = findOne('lp.section = ?', refTrimmed);
     }
 
     // Try LIKE match for flexible input
     if (!provision) {
-      provision = db.prepare(
-        "SELECT * FROM legal_provisions WHERE document_id = ? AND (provision_ref LIKE ? OR section LIKE ?)"
-      ).get(resolvedId, `%${refTrimmed}%`, `%${refTrimmed}%`) as Record<string, unknown> | undefined;
+      provision = findOne('(lp.provision_ref LIKE ? OR lp.section LIKE ?)', `%${refTrimmed}%`, `%${refTrimmed}%`);
     }
 
     if (provision) {
+      const localized = localize(provision);
+      provision = localized.row;
+      const result = { ...toProvisionResult(provision, resolvedId, docRow), language: localized.language };
+      const notes: string[] = [];
+      if (localized.language !== language) {
+        notes.push(`No ${LANGUAGE_NAMES[language]} text for ${result.provision_ref}${asOfDate ? ` as of ${asOfDate}` : ''}; returned English.`);
+      }
+
+      if (pinpoint.path.length > 0) {
+        const structure = structureFromMetadata(provision.metadata);
+        const match = structure ? findPinpoint(structure, pinpoint.path) : null;
+        if (!match) {
+          const available = structure ? listPinpoints(structure) : [];
+          return {
+            results: [],
+            _metadata: {
+              ...generateResponseMetadata(db),
+              ...{
+                note: `${result.provision_ref}${formatPinpoint(pinpoint.path)} not found in "${resolvedId}".` +
+                  (available.length > 0
+                    ? ` ${result.provision_ref} is divided into ${available.join(', ')}.`
+                    : ` ${result.provision_ref} has no numbered subsections or paragraphs.`),
+              },
+            },
+          };
+        }
+        result.pinpoint = formatPinpoint(pinpoint.path);
+        result.content = renderPinpoint(match.node);
+        if (match.lead_in) result.lead_in = match.lead_in;
+      }
+      if (input.include_case_law) {
+        try {
+          result.case_law = findProvisionCaseLaw(db, resolvedId, result.provision_ref);
+        } catch {
+          // case_law tables not present in this database tier
+          notes.push(upgradeMessage('include_case_law'));
+        }
+      }
       return {
-        results: [{
-          document_id: resolvedId,
-          document_title: docRow.title,
-          provision_ref: String(provision.provision_ref),
-          chapter: provision.chapter as string | null,
-          section: String(provision.section),
-          title: provision.title as string | null,
-          content: String(provision.content),
-          article_number: String(provision.provision_ref).replace(/^(?:s|art)/, ''),
-          url: docRow.url ?? undefined,
-        }],
-        _metadata: generateResponseMetadata(db),
+        results: [result],
+        _metadata: notes.length > 0
+          ? { ...generateResponseMetadata(db), ...{ note: notes.join(' ') } }
+          : generateResponseMetadata(db),
       };
     }
 
@@ -106,28 +202,41 @@ export async function getProvision(
       results: [],
       _metadata: {
         ...generateResponseMetadata(db),
-        ...{ note: `Provision "${ref}" not found in document "${resolvedId}"` },
+        ...{
+          note: asOfDate
+            ? `Provision "${ref}" not found in document "${resolvedId}" as of ${asOfDate}`
+            : `Provision "${ref}" not found in document "${resolvedId}"`,
+        },
       },
     };
   }
 
   // Return all provisions for the document
   const provisions = db.prepare(
-    'SELECT * FROM legal_provisions WHERE document_id = ? ORDER BY id'
-  ).all(resolvedId) as Record<string, unknown>[];
+    `SELECT * FROM legal_provisions lp WHERE lp.document_id = ? AND ${validity.sql} ORDER BY lp.id`
+  ).all(resolvedId, ...validity.params) as Record<string, unknown>[];
+
+  const results = provisions.map(p => {
+    const localized = localize(p);
+    return { ...toProvisionResult(localized.row, resolvedId, docRow), language: localized.language };
+  });
+
+  const fallbacks = results.filter(r => r.language !== language).length;
+  if (fallbacks > 0 && results.length > 0) {
+    return {
+      results,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{
+          note: `${LANGUAGE_NAMES[language]} text available for ${results.length - fallbacks} of ${results.length} provisions; ` +
+            'the rest are returned in English.',
+        },
+      },
+    };
+  }
 
   return {
-    results: provisions.map(p => ({
-      document_id: resolvedId,
-      document_title: docRow.title,
-      provision_ref: String(p.provision_ref),
-      chapter: p.chapter as string | null,
-      section: String(p.section),
-      title: p.title as string | null,
-      content: String(p.content),
-      article_number: String(p.provision_ref).replace(/^(?:s|art)/, ''),
-      url: docRow.url ?? undefined,
-    })),
+    results,
     _metadata: generateResponseMetadata(db),
   };
 }
@@ -0,0 +1,130 @@
+/**
+ * get_subsidiary_legislation — Regulations and Legal Notices made under a Kenyan Act.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetSubsidiaryLegislationInput {
+  document_id: string;
+  provision_ref?: string;
+}
+
+export interface SubsidiaryLegislationResult {
+  document_id: string;
+  title: string;
+  short_name: string | null;
+  legal_notice: string | null;
+  parent_document_id: string;
+  parent_title: string;
+  /** Enabling provisions of the parent Act, e.g. ["s71"]. */
+  enabling_provisions: string[];
+  status: string;
+  issued_date: string | null;
+  in_force_date: string | null;
+  url: string | null;
+  provision_count: number;
+}
+
+interface SubsidiaryRow extends Omit<SubsidiaryLegislationResult, 'enabling_provisions'> {
+  enabling_provisions: string | null;
+}
+
+const BASE_SELECT = `
+  SELECT
+    sl.document_id,
+    ld.title,
+    ld.short_name,
+    sl.legal_notice,
+    sl.parent_document_id,
+    pd.title as parent_title,
+    GROUP_CONCAT(sl.enabling_provision_ref) as enabling_provisions,
+    ld.status,
+    ld.issued_date,
+    ld.in_force_date,
+    ld.url,
+    (SELECT COUNT(*) FROM legal_provisions lp WHERE lp.document_id = sl.document_id AND lp.valid_to IS NULL) as provision_count
+  FROM subsidiary_legislation sl
+  JOIN legal_documents ld ON ld.id = sl.document_id
+  JOIN legal_documents pd ON pd.id = sl.parent_document_id
+`;
+
+function toResult(row: SubsidiaryRow): SubsidiaryLegislationResult {
+  return {
+    ...row,
+    enabling_provisions: row.enabling_provisions ? row.enabling_provisions.split(',') : [],
+  };
+}
+
+export async function getSubsidiaryLegislation(
+  db: InstanceType<typeof Database>,
+  input: GetSubsidiaryLegislationInput,
+): Promise<ToolResponse<SubsidiaryLegislationResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  let provisionRef: string | null = null;
+  if (input.provision_ref) {
+    const ref = input.provision_ref.trim();
+    const row = db.prepare(
+      'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?) AND valid_to IS NULL'
+    ).get(resolvedId, ref, `s${ref}`, `art${ref}`, ref) as { provision_ref: string } | undefined;
+    if (!row) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `Provision "${ref}" not found in document "${resolvedId}"` },
+        },
+      };
+    }
+    provisionRef = row.provision_ref;
+  }
+
+  let sql = `${BASE_SELECT} WHERE sl.parent_document_id = ?`;
+  const params: string[] = [resolvedId];
+  if (provisionRef) {
+    sql += ' AND sl.document_id IN (SELECT document_id FROM subsidiary_legislation WHERE parent_document_id = ? AND enabling_provision_ref = ?)';
+    params.push(resolvedId, provisionRef);
+  }
+  sql += ' GROUP BY sl.document_id ORDER BY ld.issued_date, ld.title';
+
+  const results = (db.prepare(sql).all(...params) as SubsidiaryRow[]).map(toResult);
+  if (results.length > 0) {
+    return { results, _metadata: generateResponseMetadata(db) };
+  }
+
+  // The reference may itself be a regulation — point back to its parent Act
+  const parent = db.prepare(`${BASE_SELECT} WHERE sl.document_id = ? GROUP BY sl.document_id`)
+    .get(resolvedId) as SubsidiaryRow | undefined;
+  if (parent) {
+    return {
+      results: [toResult(parent)],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `"${resolvedId}" is subsidiary legislation made under ${parent.parent_title}` },
+      },
+    };
+  }
+
+  return {
+    results: [],
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...{
+        note: provisionRef
+          ? `No subsidiary legislation recorded under ${provisionRef} of "${resolvedId}"`
+          : `No subsidiary legislation recorded for "${resolvedId}"`,
+      },
+    },
+  };
+}
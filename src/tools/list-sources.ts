@@ -60,7 +60,7 @@ export async function listSources(
         schema_version: meta.schema_version,
         built_at: meta.built_at,
         document_count: safeCount(db, 'SELECT COUNT(*) as count FROM legal_documents'),
-        provision_count: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions'),
+        provision_count: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions WHERE valid_to IS NULL'),
       },
     },
     _metadata: generateResponseMetadata(db),
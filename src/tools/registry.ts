@@ -14,7 +14,9 @@ import type Database from '@ansvar/mcp-sqlite';
 import { searchLegislation, type SearchLegislationInput } from './search-legislation.js';
 import { getProvision, type GetProvisionInput } from './get-provision.js';
 import { validateCitationTool, type ValidateCitationInput } from './validate-citation.js';
+import { extractCitations, type ExtractCitationsInput } from './extract-citations.js';
 import { buildLegalStance, type BuildLegalStanceInput } from './build-legal-stance.js';
+import { semanticSearch, type SemanticSearchInput } from './semantic-search.js';
 import { formatCitationTool, type FormatCitationInput } from './format-citation.js';
 import { checkCurrency, type CheckCurrencyInput } from './check-currency.js';
 import { getEUBasis, type GetEUBasisInput } from './get-eu-basis.js';
@@ -22,9 +24,22 @@ import { getKenyanImplementations, type GetKenyanImplementationsInput } from './
 import { searchEUImplementations, type SearchEUImplementationsInput } from './search-eu-implementations.js';
 import { getProvisionEUBasis, type GetProvisionEUBasisInput } from './get-provision-eu-basis.js';
 import { validateEUCompliance, type ValidateEUComplianceInput } from './validate-eu-compliance.js';
+import { gdprGapReport, type GdprGapReportInput } from './gdpr-gap-report.js';
+import { getInternationalBasis, type GetInternationalBasisInput } from './get-international-basis.js';
+import { compareWithEU, type CompareWithEUInput } from './compare-with-eu.js';
+import { getDefinitions, type GetDefinitionsInput } from './get-definitions.js';
+import { getCrossReferences, type GetCrossReferencesInput } from './get-cross-references.js';
+import { getSubsidiaryLegislation, type GetSubsidiaryLegislationInput } from './get-subsidiary-legislation.js';
+import { getAmendmentHistory, type GetAmendmentHistoryInput } from './get-amendment-history.js';
+import { compareProvisionVersions, type CompareProvisionVersionsInput } from './compare-provision-versions.js';
+import { searchCaseLaw, type SearchCaseLawInput } from './search-case-law.js';
+import { getCase, type GetCaseInput } from './get-case.js';
+import { getProvisionCaseLaw, type GetProvisionCaseLawInput } from './get-provision-case-law.js';
+import { getPreparatoryWorks, type GetPreparatoryWorksInput } from './get-preparatory-works.js';
+import { searchGazette, type SearchGazetteInput } from './search-gazette.js';
 import { listSources } from './list-sources.js';
 import { getAbout, type AboutContext } from './about.js';
-import { detectCapabilities, upgradeMessage } from '../capabilities.js';
+import { detectCapabilities, upgradeMessage, type Capability } from '../capabilities.js';
 export type { AboutContext } from './about.js';
 
 const ABOUT_TOOL: Tool = {
@@ -46,15 +61,210 @@ const LIST_SOURCES_TOOL: Tool = {
   inputSchema: { type: 'object', properties: {} },
 };
 
+const GET_DEFINITIONS_TOOL: Tool = {
+  name: 'get_definitions',
+  description:
+    'Look up statutory definitions from the interpretation sections of Kenyan statutes. ' +
+    'Matches the term exactly first, then by prefix, then by full-text search over terms and definition text. ' +
+    'Returns the definition, the defining provision (source_provision), and flags statutes that define the same term differently ' +
+    '(e.g., "data" in the Data Protection Act 2019 vs the Computer Misuse and Cybercrimes Act 2018). ' +
+    'Use this before relying on a defined term — definitions apply only within the Act that contains them.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      term: {
+        type: 'string',
+        description: 'Term to look up (e.g., "personal data", "data controller", "computer system").',
+      },
+      document_id: {
+        type: 'string',
+        description: 'Optional: restrict to one statute (Act title, short name, or internal document ID).',
+      },
+      match: {
+        type: 'string',
+        enum: ['exact', 'prefix', 'fts'],
+        description: 'Optional: force a single matching strategy. By default exact, prefix, and full-text are tried in order.',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum results to return (default: 10, max: 50).',
+        default: 10,
+      },
+    },
+    required: ['term'],
+  },
+};
+
+const CASE_LAW_TOOLS: Tool[] = [
+  {
+    name: 'search_case_law',
+    description:
+      'Search Kenyan judgments (Supreme Court, Court of Appeal, High Court and specialised courts) by keyword ' +
+      'using full-text search over case names, summaries, and judgment text. ' +
+      'Returns neutral citations (e.g., "[2023] KEHC 1234 (KLR)"), court, decision date, and snippets with >>> <<< markers. ' +
+      'Requires a database with the case law capability.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query (e.g., "right to privacy", "Computer Misuse and Cybercrimes Act section 22").',
+        },
+        court: {
+          type: 'string',
+          description: 'Optional: court code (e.g., "KESC", "KECA", "KEHC") or court name.',
+        },
+        date_from: { type: 'string', description: 'Optional: earliest decision date (ISO 8601).' },
+        date_to: { type: 'string', description: 'Optional: latest decision date (ISO 8601).' },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return (default: 10, max: 50).',
+          default: 10,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_case',
+    description:
+      'Retrieve a Kenyan judgment by neutral citation (e.g., "[2023] KEHC 1234 (KLR)"), case number, internal case ID, or case name. ' +
+      'Returns court, parties, judges, decision date, summary, and the full judgment text. ' +
+      'Requires a database with the case law capability.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        case_id: {
+          type: 'string',
+          description: 'Neutral citation, case number, internal case ID (e.g., "kehc-2023-1234"), or part of the case name.',
+        },
+        include_full_text: {
+          type: 'boolean',
+          description: 'Include the full judgment text (default: true).',
+          default: true,
+        },
+      },
+      required: ['case_id'],
+    },
+  },
+  {
+    name: 'get_provision_case_law',
+    description:
+      'Find judgments that considered a specific provision of a Kenyan statute, with the court\'s treatment: ' +
+      'interpreted, applied, suspended, declared_unconstitutional, or cited. ' +
+      'Use this for questions like "which court decisions interpreted section 22 of the Computer Misuse and Cybercrimes Act?". ' +
+      'Requires a database with the case law capability.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'Statute identifier (Act title, short name, or internal document ID).' },
+        provision_ref: { type: 'string', description: 'Provision reference (e.g., "s22" or "22").' },
+        treatment: {
+          type: 'string',
+          enum: ['interpreted', 'declared_unconstitutional', 'suspended', 'applied', 'cited'],
+          description: 'Optional: only return judgments with this treatment.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return (default: 20, max: 100).',
+          default: 20,
+        },
+      },
+      required: ['document_id', 'provision_ref'],
+    },
+  },
+];
+
+const PREPARATORY_WORKS_TOOL: Tool = {
+  name: 'get_preparatory_works',
+  description:
+    'Trace the legislative intent behind a Kenyan statute: the Bill it was enacted from (with its Kenya Gazette Supplement ' +
+    'and Bill number), the Memorandum of Objects and Reasons, committee reports, and Hansard debates, in legislative order. ' +
+    'Accepts the Act (title, short name, or document ID) or the Bill itself. ' +
+    'Requires a database with the preparatory works capability.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Statute or Bill identifier (e.g., "Data Protection Act 2019", "DPA 2019").',
+      },
+      work_type: {
+        type: 'string',
+        enum: ['bill', 'memorandum', 'hansard', 'committee_report'],
+        description: 'Optional: only return this kind of preparatory work.',
+      },
+      include_full_text: {
+        type: 'boolean',
+        description: 'Include the full Bill, memorandum, or debate text (default: false).',
+        default: false,
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
+const GAZETTE_TOOL: Tool = {
+  name: 'search_gazette',
+  description:
+    'Search Kenya Gazette notices — commencement notices, appointments and other notices published under Kenyan Acts. ' +
+    'Returns the notice number, issue (volume, number, date), the Act the notice was made under, and a snippet. ' +
+    'Give a query, a document_id, or both; with only a document_id, lists that Act\'s notices newest first.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Search query (e.g., "Data Commissioner appointment", "commencement").',
+      },
+      document_id: {
+        type: 'string',
+        description: 'Optional: only notices made under this Act (title, short name, or document ID).',
+      },
+      notice_type: {
+        type: 'string',
+        enum: ['commencement', 'appointment', 'other'],
+        description: 'Optional: only this kind of notice.',
+      },
+      date_from: {
+        type: 'string',
+        description: 'Optional: earliest issue date (ISO 8601).',
+      },
+      date_to: {
+        type: 'string',
+        description: 'Optional: latest issue date (ISO 8601).',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum results to return (default: 10, max: 50).',
+        default: 10,
+      },
+    },
+  },
+};
+
+/** Tools that need an optional dataset; without it they return an upgrade message. */
+const GATED_TOOLS: Record<string, Capability> = {
+  search_case_law: 'case_law',
+  get_case: 'case_law',
+  get_provision_case_law: 'case_law',
+  get_preparatory_works: 'preparatory_works',
+};
+
 export const TOOLS: Tool[] = [
   {
     name: 'search_legislation',
     description:
       'Search Kenyan statutes and regulations by keyword using full-text search (FTS5 with BM25 ranking). ' +
       'Returns matching provisions with document context, snippets with >>> <<< markers around matched terms, and relevance scores. ' +
-      'Supports FTS5 syntax: quoted phrases ("exact match"), boolean operators (AND, OR, NOT), and prefix wildcards (term*). ' +
-      'Results are primarily in English. ' +
-      'Default limit is 10 results. For broad topics, increase the limit. ' +
+      'Supports FTS5 syntax: quoted phrases ("exact match"), boolean operators (AND, OR, NOT) with parentheses, prefix wildcards (term*), ' +
+      'NEAR(term term, N) and column filters (title:consent, content:"data subject"). ' +
+      'Invalid syntax returns no results and a query_error in _metadata giving the problem and its position. ' +
+      'When exact terms return fewer than limit results, matches on word stems ("processed" for "processing") fill the rest. ' +
+      'Results are in English unless language is "sw", which searches the Kiswahili text where Kenya Law publishes one ' +
+      'and falls back to English when nothing matches. ' +
+      'Default limit is 10 results. For broad topics, page with offset (_metadata.pagination gives the total and next_offset) ' +
+      'and set facets to get hit counts by Act, chapter and document status. ' +
       'Do NOT use this for retrieving a known provision — use get_provision instead.',
     inputSchema: {
       type: 'object',
@@ -62,7 +272,7 @@ export const TOOLS: Tool[] = [
         query: {
           type: 'string',
           description:
-            'Search query in English. Supports FTS5 syntax: ' +
+            'Search query (in English, or Kiswahili with language "sw"). Supports FTS5 syntax: ' +
             '"personal data" for exact phrase, term* for prefix.',
         },
         document_id: {
@@ -71,14 +281,36 @@ export const TOOLS: Tool[] = [
         },
         status: {
           type: 'string',
-          enum: ['in_force', 'amended', 'repealed', 'partially_suspended'],
-          description: 'Optional: filter by legislative status.',
+          enum: ['in_force', 'suspended', 'repealed', 'not_commenced', 'spent', 'amended', 'partially_suspended'],
+          description:
+            'Optional: filter by status. in_force, suspended, repealed, not_commenced and spent apply to the individual provision ' +
+            '(e.g., in_force excludes court-suspended sections); amended and partially_suspended filter on the whole Act.',
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Optional: search the wording in force on this date (ISO 8601, e.g., "2021-06-30"). Defaults to the current text.',
+        },
+        language: {
+          type: 'string',
+          enum: ['en', 'sw'],
+          description: 'Optional: "sw" to search Kiswahili texts (current wording only), falling back to English. Default "en".',
+          default: 'en',
         },
         limit: {
           type: 'number',
           description: 'Maximum results to return (default: 10, max: 50).',
           default: 10,
         },
+        offset: {
+          type: 'number',
+          description: 'Optional: number of results to skip, to page through all matches (default: 0).',
+          default: 0,
+        },
+        facets: {
+          type: 'boolean',
+          description: 'Optional: include hit counts by Act, chapter (Part) and document status across all matches in _metadata.facets.',
+          default: false,
+        },
       },
       required: ['query'],
     },
@@ -92,6 +324,9 @@ export const TOOLS: Tool[] = [
       'Returns provision text, chapter, section number, and metadata. ' +
       'Supports Act title references (e.g., "Data Protection Act 2019"), abbreviations, and full titles. ' +
       'For the Constitution, use "Article N"; for Acts, use "Section N" or just the number. ' +
+      'Add a subsection/paragraph pinpoint (e.g., "26(1)(b)") to get only that unit, with its lead-in text. ' +
+      'Pass as_of_date to get the wording in force on a past date (e.g., the date of an incident). ' +
+      'Pass language "sw" for the Kiswahili text where Kenya Law publishes one; each result states its language. ' +
       'Use this when you know WHICH provision you want. For discovery, use search_legislation instead.',
     inputSchema: {
       type: 'object',
@@ -104,11 +339,26 @@ export const TOOLS: Tool[] = [
         },
         section: {
           type: 'string',
-          description: 'Section/article number (e.g., "25", "31"). Omit to get all provisions.',
+          description: 'Section/article number, optionally with a pinpoint (e.g., "25", "31", "22(2)(a)"). Omit to get all provisions.',
         },
         provision_ref: {
           type: 'string',
-          description: 'Direct provision reference (e.g., "s25", "art31"). Alternative to section parameter.',
+          description: 'Direct provision reference, optionally with a pinpoint (e.g., "s25", "art31", "s26(1)(b)"). Alternative to section parameter.',
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Optional: return the text as it stood on this date (ISO 8601, e.g., "2021-06-30"). Defaults to the current text.',
+        },
+        include_case_law: {
+          type: 'boolean',
+          description: 'Optional: attach judgments that considered the provision, with their treatment (requires the case law capability).',
+          default: false,
+        },
+        language: {
+          type: 'string',
+          enum: ['en', 'sw'],
+          description: 'Optional: "sw" for the Kiswahili text where one is stored, otherwise English is returned with a note. Default "en".',
+          default: 'en',
         },
       },
       required: ['document_id'],
@@ -119,8 +369,9 @@ export const TOOLS: Tool[] = [
     description:
       'Validate a Kenyan legal citation against the database — zero-hallucination check. ' +
       'Parses the citation, checks that the document and provision exist, and returns warnings about status ' +
-      '(repealed, amended, partially suspended). Use this to verify any citation BEFORE including it in a legal analysis. ' +
-      'Supports formats: "Section 25, Data Protection Act 2019", "s 25, DPA 2019", "Article 31, Constitution of Kenya 2010".',
+      '(repealed, amended, partially suspended), including whether the cited section itself is suspended or not yet in force. Use this to verify any citation BEFORE including it in a legal analysis. ' +
+      'Supports formats: "Section 25, Data Protection Act 2019", "s 25, DPA 2019", "Article 31, Constitution of Kenya 2010", ' +
+      'and subsection pinpoints such as "Section 22(2)(a), CMCA 2018", which are checked against the provision\'s structure.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -132,11 +383,34 @@ export const TOOLS: Tool[] = [
       required: ['citation'],
     },
   },
+  {
+    name: 'extract_citations',
+    description:
+      'Find every Kenyan legal citation in a passage of free text (a memo, contract or opinion) and validate each one. ' +
+      'Recognises Section/s./ss. and Article references (with subsection pinpoints and lists such as "sections 3 and 4"), ' +
+      'named Acts, "the Act"/"this Act" back-references (resolved to the Act last named, or to document_id), ' +
+      'Cap. numbers and Legal Notice numbers. Each hit has character offsets into the text and the validate_citation result, ' +
+      'classified as valid, invalid, repealed, suspended, not_in_force or unverified (the Act, chapter or Legal Notice is not in the database). ' +
+      'Articles of foreign instruments ("Article 5 of the GDPR") are skipped.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'The text to scan.' },
+        document_id: {
+          type: 'string',
+          description: 'Optional: the Act that bare section references and "the Act" mean until the text names one.',
+        },
+      },
+      required: ['text'],
+    },
+  },
   {
     name: 'build_legal_stance',
     description:
       'Build a comprehensive set of citations for a legal question by searching across all Kenyan statutes simultaneously. ' +
-      'Returns aggregated results from multiple relevant provisions, useful for legal research on a topic. ' +
+      'Groups the matching provisions by category (obligations, prohibitions, offences and penalties, definitions, exemptions, ' +
+      'enforcement bodies) and adds the defined terms involved, the constitutional articles that match the question or that the ' +
+      'cited provisions refer to, and currency warnings for any cited provision that is suspended, repealed or not yet in force. ' +
       'Use this for broad legal questions like "What are the penalties for data breaches in Kenya?" ' +
       'rather than looking up a specific known provision.',
     inputSchema: {
@@ -150,6 +424,14 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description: 'Optional: limit search to one statute by document ID.',
         },
+        mode: {
+          type: 'string',
+          enum: ['keyword', 'hybrid'],
+          description:
+            'Optional: "keyword" (default) ranks by BM25; "hybrid" fuses BM25 with semantic similarity (reciprocal rank fusion), ' +
+            'so provisions worded differently from the question can still be cited.',
+          default: 'keyword',
+        },
         limit: {
           type: 'number',
           description: 'Max results per category (default: 5, max: 20).',
@@ -159,12 +441,42 @@ export const TOOLS: Tool[] = [
       required: ['query'],
     },
   },
+  {
+    name: 'semantic_search',
+    description:
+      'Find Kenyan statute provisions related in meaning to a plain-language question ' +
+      '(e.g., "can my employer read my WhatsApp messages"), even when they share few words with it. ' +
+      'Uses vectors built offline from the statute corpus (latent semantic analysis); nothing is sent to an external service. ' +
+      'Returns provisions with the opening words of their text and a cosine similarity score. ' +
+      'Query words that never occur in the statutes are ignored and listed in _metadata.unknown_terms. ' +
+      'For exact terms, phrases or boolean queries use search_legislation instead.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Question or description of the situation, in English.',
+        },
+        document_id: {
+          type: 'string',
+          description: 'Optional: limit search to one statute by document ID.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return (default: 10, max: 50).',
+          default: 10,
+        },
+      },
+      required: ['query'],
+    },
+  },
   {
     name: 'format_citation',
     description:
       'Format a Kenyan legal citation per standard conventions. ' +
       'Three formats: "full" (formal, e.g., "Section 25, Data Protection Act 2019"), ' +
-      '"short" (abbreviated, e.g., "s 25, Data Protection Act"), "pinpoint" (section reference only, e.g., "s 25").',
+      '"short" (abbreviated, e.g., "s 25, Data Protection Act"), "pinpoint" (section reference only, e.g., "s 25"). ' +
+      'Subsection pinpoints are kept and normalized, e.g., "s 26 (1) (b)" -> "s 26(1)(b)".',
     inputSchema: {
       type: 'object',
       properties: {
@@ -184,8 +496,9 @@ export const TOOLS: Tool[] = [
     description:
       'Check whether a Kenyan statute or provision is currently in force, amended, repealed, partially suspended, or not yet in force. ' +
       'Returns the document status, issued date, in-force date, and warnings. ' +
+      'With provision_ref, also returns the status of that provision (suspended, repealed, not_commenced, spent) with the court order or Legal Notice and dates behind it. ' +
       'Essential before citing any provision — always verify currency. ' +
-      'Note: Some sections of the Computer Misuse and Cybercrimes Act 2018 were suspended by court order.',
+      'Note: Some sections of the Computer Misuse and Cybercrimes Act 2018 were suspended by court order from May 2018 to February 2020; pass as_of_date to check a date in that window.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -197,10 +510,131 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description: 'Optional: provision reference to check a specific section.',
         },
+        as_of_date: {
+          type: 'string',
+          description: 'Optional: check currency as of this date (ISO 8601). With provision_ref, returns the wording in force on that date.',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_cross_references',
+    description:
+      'Get the citation graph around a Kenyan statute or provision: outgoing references (provisions and Acts it cites) ' +
+      'and incoming references (provisions elsewhere that cite it). ' +
+      'References are extracted from statute text ("section 25 of this Act", "the Evidence Act", "Article 31 of the Constitution"). ' +
+      'Use this to find everything that points at a provision, e.g. all provisions referring to section 25 of the Data Protection Act 2019.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier (Act title, short name, or internal document ID).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: provision reference (e.g., "s25" or "25"). Omit for statute-level references.',
+        },
+        direction: {
+          type: 'string',
+          enum: ['outgoing', 'incoming', 'both'],
+          description: 'Which references to return (default: "both").',
+          default: 'both',
+        },
+        ref_type: {
+          type: 'string',
+          enum: ['references', 'amended_by', 'implements', 'see_also'],
+          description: 'Optional: filter by reference type.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum references per direction (default: 100, max: 500).',
+          default: 100,
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_subsidiary_legislation',
+    description:
+      'List the regulations, rules and orders (Legal Notices) made under a Kenyan Act, with the enabling section, ' +
+      'Legal Notice number, status, and dates. Pass provision_ref to list only instruments made under that section ' +
+      '(e.g., regulations under section 71 of the Data Protection Act 2019). ' +
+      'Regulations are documents in their own right: retrieve their text with get_provision.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Parent Act identifier (Act title, short name, or internal document ID).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: enabling section of the parent Act (e.g., "s71" or "71").',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_amendment_history',
+    description:
+      'List the Acts and Legal Notices that amended a Kenyan statute or one of its sections (e.g., Statute Law ' +
+      '(Miscellaneous Amendments) Acts, Finance Acts), oldest first, with the amending section or Schedule and the nature of the change. ' +
+      'Events read from the consolidated text are dated by year only; curated events carry the exact date. ' +
+      'Use get_cross_references with ref_type "amended_by" for amending Acts that are themselves in the database.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier (Act title, short name, or internal document ID).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: section to trace (e.g., "s23" or "23"). Omit for the whole Act.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return (default: 100, max: 500).',
+          default: 100,
+        },
       },
       required: ['document_id'],
     },
   },
+  {
+    name: 'compare_provision_versions',
+    description:
+      'Compare two recorded wordings of a Kenyan statutory provision and return a word-level diff ' +
+      '(equal, inserted and deleted spans) with counts of inserted, deleted and unchanged words. ' +
+      'By default compares the current wording with the one it replaced; pass from_date/to_date to compare the wordings in force on those dates. ' +
+      'Also lists every recorded wording with its validity dates.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier (Act title, short name, or internal document ID).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Provision reference (e.g., "s26" or "26").',
+        },
+        from_date: {
+          type: 'string',
+          description: 'Optional: compare from the wording in force on this date (ISO 8601).',
+        },
+        to_date: {
+          type: 'string',
+          description: 'Optional: compare to the wording in force on this date (ISO 8601, default: current wording).',
+        },
+      },
+      required: ['document_id', 'provision_ref'],
+    },
+  },
   {
     name: 'get_eu_basis',
     description:
@@ -299,18 +733,76 @@ export const TOOLS: Tool[] = [
       required: ['document_id'],
     },
   },
+  {
+    name: 'gdpr_gap_report',
+    description:
+      'Compare a Kenyan statute with the GDPR (Regulation (EU) 2016/679) article by article, from a curated mapping. ' +
+      'Each GDPR article is matched to Kenyan sections that are equivalent, narrower or broader, or recorded as absent. ' +
+      'Returns coverage counts, the GDPR articles with no Kenyan counterpart, those covered only in part, ' +
+      'and the sections that go beyond the GDPR (e.g., registration of data controllers, data localisation).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Kenyan statute identifier (default: "data-protection-act-2019", currently the only mapped Act).',
+        },
+      },
+    },
+  },
+  {
+    name: 'compare_with_eu',
+    description:
+      'Read a Kenyan provision side by side with the EU article(s) it is mapped to, e.g. a Data Protection Act section ' +
+      'beside the corresponding GDPR articles. Returns both texts, the mapping (correspondence and notes) and a ' +
+      'similarity score from the semantic search model; scores are for ranking the articles against each other, ' +
+      'not an absolute measure of equivalence. Name eu_document_id and eu_article to compare an article that is not mapped. ' +
+      'EU article text is bundled for the most-used GDPR articles; others link to EUR-Lex.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'Kenyan statute identifier.' },
+        provision_ref: { type: 'string', description: 'Provision reference (e.g., "s26").' },
+        eu_document_id: { type: 'string', description: 'Optional: EU document (e.g., "regulation:2016/679").' },
+        eu_article: { type: 'string', description: 'Optional: EU article number (e.g., "15").' },
+      },
+      required: ['document_id', 'provision_ref'],
+    },
+  },
+  {
+    name: 'get_international_basis',
+    description:
+      'Get the international and regional instruments behind a Kenyan statute: treaties, conventions, ' +
+      'recommendations (e.g., the FATF Recommendations), model laws and regional protocols (e.g., EAC). ' +
+      'Combines curated article-level mappings (Computer Misuse and Cybercrimes Act against the Budapest and Malabo ' +
+      'Conventions; Proceeds of Crime and Anti-Money Laundering Act against FATF, Palermo, UNCAC and Vienna) with ' +
+      'mentions extracted from provision text. Results are grouped by instrument with Kenya\'s party status.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'Kenyan statute identifier.' },
+        provision_ref: { type: 'string', description: 'Optional: limit to one provision (e.g., "s16").' },
+        instrument_type: {
+          type: 'string',
+          enum: ['treaty', 'convention', 'recommendation', 'model_law', 'regional_protocol'],
+          description: 'Optional: limit to one kind of instrument.',
+        },
+      },
+      required: ['document_id'],
+    },
+  },
 ];
 
 export function buildTools(
   db?: InstanceType<typeof Database>,
   context?: AboutContext,
 ): Tool[] {
-  const tools = [...TOOLS, LIST_SOURCES_TOOL];
+  const tools = [...TOOLS, ...CASE_LAW_TOOLS, PREPARATORY_WORKS_TOOL, GAZETTE_TOOL, LIST_SOURCES_TOOL];
 
   if (db) {
     try {
       db.prepare('SELECT 1 FROM definitions LIMIT 1').get();
-      // Could add a get_definitions tool here when definitions table exists
+      tools.push(GET_DEFINITIONS_TOOL);
     } catch {
       // definitions table doesn't exist
     }
@@ -329,6 +821,7 @@ export function registerTools(
   context?: AboutContext,
 ): void {
   const allTools = buildTools(db, context);
+  const capabilities = detectCapabilities(db);
 
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return { tools: allTools };
@@ -337,6 +830,13 @@ export function registerTools(
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
 
+    const requiredCapability = GATED_TOOLS[name];
+    if (requiredCapability && !capabilities.has(requiredCapability)) {
+      return {
+        content: [{ type: 'text' as const, text: upgradeMessage(name) }],
+      };
+    }
+
     try {
       let result: unknown;
 
@@ -350,15 +850,48 @@ export function registerTools(
         case 'validate_citation':
           result = await validateCitationTool(db, args as unknown as ValidateCitationInput);
           break;
+        case 'extract_citations':
+          result = await extractCitations(db, args as unknown as ExtractCitationsInput);
+          break;
         case 'build_legal_stance':
           result = await buildLegalStance(db, args as unknown as BuildLegalStanceInput);
           break;
+        case 'semantic_search':
+          result = await semanticSearch(db, args as unknown as SemanticSearchInput);
+          break;
         case 'format_citation':
           result = await formatCitationTool(args as unknown as FormatCitationInput);
           break;
         case 'check_currency':
           result = await checkCurrency(db, args as unknown as CheckCurrencyInput);
           break;
+        case 'get_cross_references':
+          result = await getCrossReferences(db, args as unknown as GetCrossReferencesInput);
+          break;
+        case 'get_subsidiary_legislation':
+          result = await getSubsidiaryLegislation(db, args as unknown as GetSubsidiaryLegislationInput);
+          break;
+        case 'get_amendment_history':
+          result = await getAmendmentHistory(db, args as unknown as GetAmendmentHistoryInput);
+          break;
+        case 'compare_provision_versions':
+          result = await compareProvisionVersions(db, args as unknown as CompareProvisionVersionsInput);
+          break;
+        case 'search_case_law':
+          result = await searchCaseLaw(db, args as unknown as SearchCaseLawInput);
+          break;
+        case 'get_case':
+          result = await getCase(db, args as unknown as GetCaseInput);
+          break;
+        case 'get_provision_case_law':
+          result = await getProvisionCaseLaw(db, args as unknown as GetProvisionCaseLawInput);
+          break;
+        case 'get_preparatory_works':
+          result = await getPreparatoryWorks(db, args as unknown as GetPreparatoryWorksInput);
+          break;
+        case 'search_gazette':
+          result = await searchGazette(db, args as unknown as SearchGazetteInput);
+          break;
         case 'get_eu_basis':
           result = await getEUBasis(db, args as unknown as GetEUBasisInput);
           break;
@@ -374,6 +907,18 @@ export function registerTools(
         case 'validate_eu_compliance':
           result = await validateEUCompliance(db, args as unknown as ValidateEUComplianceInput);
           break;
+        case 'gdpr_gap_report':
+          result = await gdprGapReport(db, args as unknown as GdprGapReportInput);
+          break;
+        case 'compare_with_eu':
+          result = await compareWithEU(db, args as unknown as CompareWithEUInput);
+          break;
+        case 'get_international_basis':
+          result = await getInternationalBasis(db, args as unknown as GetInternationalBasisInput);
+          break;
+        case 'get_definitions':
+          result = await getDefinitions(db, args as unknown as GetDefinitionsInput);
+          break;
         case 'list_sources':
           result = await listSources(db);
           break;
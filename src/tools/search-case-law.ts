@@ -0,0 +1,89 @@
+/**
+ * search_case_law — Full-text search across Kenyan judgments.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface SearchCaseLawInput {
+  query: string;
+  court?: string;
+  date_from?: string;
+  date_to?: string;
+  limit?: number;
+}
+
+export interface CaseLawSearchResult {
+  case_id: string;
+  neutral_citation: string | null;
+  title: string;
+  court: string;
+  court_code: string | null;
+  decision_date: string | null;
+  snippet: string;
+  relevance: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function searchCaseLaw(
+  db: InstanceType<typeof Database>,
+  input: SearchCaseLawInput,
+): Promise<ToolResponse<CaseLawSearchResult[]>> {
+  if (!input.query || input.query.trim().length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
+
+  for (const ftsQuery of queryVariants) {
+    let sql = `
+      SELECT
+        cl.case_id,
+        cl.neutral_citation,
+        cl.title,
+        cl.court,
+        cl.court_code,
+        cl.decision_date,
+        snippet(case_law_fts, 2, '>>>', '<<<', '...', 32) as snippet,
+        bm25(case_law_fts) as relevance
+      FROM case_law_fts
+      JOIN case_law cl ON cl.id = case_law_fts.rowid
+      WHERE case_law_fts MATCH ?
+    `;
+    const params: (string | number)[] = [ftsQuery];
+
+    if (input.court) {
+      sql += ' AND (UPPER(cl.court_code) = UPPER(?) OR cl.court LIKE ?)';
+      params.push(input.court, `%${input.court}%`);
+    }
+
+    if (input.date_from) {
+      sql += ' AND cl.decision_date >= ?';
+      params.push(input.date_from);
+    }
+
+    if (input.date_to) {
+      sql += ' AND cl.decision_date <= ?';
+      params.push(input.date_to);
+    }
+
+    sql += ' ORDER BY relevance LIMIT ?';
+    params.push(limit);
+
+    try {
+      const rows = db.prepare(sql).all(...params) as CaseLawSearchResult[];
+      if (rows.length > 0) {
+        return { results: rows, _metadata: generateResponseMetadata(db) };
+      }
+    } catch {
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+
+  return { results: [], _metadata: generateResponseMetadata(db) };
+}
@@ -0,0 +1,161 @@
+/**
+ * search_gazette — Full-text search across Kenya Gazette notices.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { detectCapabilities } from '../capabilities.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type GazetteNoticeType = 'commencement' | 'appointment' | 'other';
+
+export interface SearchGazetteInput {
+  query?: string;
+  document_id?: string;
+  notice_type?: GazetteNoticeType;
+  date_from?: string;
+  date_to?: string;
+  limit?: number;
+}
+
+export interface GazetteNoticeResult {
+  notice_id: string;
+  notice_number: string;
+  notice_type: GazetteNoticeType;
+  title: string;
+  volume: string | null;
+  issue_number: string | null;
+  issue_date: string | null;
+  signed_date: string | null;
+  document_id: string | null;
+  document_title: string | null;
+  url: string | null;
+  snippet: string;
+  relevance: number | null;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function searchGazette(
+  db: InstanceType<typeof Database>,
+  input: SearchGazetteInput,
+): Promise<ToolResponse<GazetteNoticeResult[]>> {
+  const query = input.query?.trim() ?? '';
+  if (query.length === 0 && !input.document_id) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  // Databases built before the gazette tables existed, or without any notices loaded
+  const loaded = detectCapabilities(db).has('gazette')
+    ? (db.prepare('SELECT COUNT(*) as count FROM gazette_notices').get() as { count: number }).count
+    : null;
+  if (!loaded) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{
+          note: loaded === null
+            ? 'Gazette notices are not available in this database; rebuild it with npm run build:db.'
+            : 'No Gazette notices are loaded in this database; npm run ingest -- --gazette adds them.',
+        },
+      },
+    };
+  }
+
+  let documentId: string | null = null;
+  if (input.document_id) {
+    documentId = resolveDocumentId(db, input.document_id);
+    if (!documentId) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No document found matching "${input.document_id}"` },
+        },
+      };
+    }
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const filter = (): { sql: string; params: (string | number)[] } => {
+    let sql = '';
+    const params: (string | number)[] = [];
+    if (documentId) {
+      sql += ' AND gn.document_id = ?';
+      params.push(documentId);
+    }
+    if (input.notice_type) {
+      sql += ' AND gn.notice_type = ?';
+      params.push(input.notice_type);
+    }
+    if (input.date_from) {
+      sql += ' AND gn.issue_date >= ?';
+      params.push(input.date_from);
+    }
+    if (input.date_to) {
+      sql += ' AND gn.issue_date <= ?';
+      params.push(input.date_to);
+    }
+    return { sql, params };
+  };
+
+  const columns = `
+    gn.notice_id,
+    gn.notice_number,
+    gn.notice_type,
+    gn.title,
+    gn.volume,
+    gn.issue_number,
+    gn.issue_date,
+    gn.signed_date,
+    gn.document_id,
+    ld.title as document_title,
+    gn.url`;
+
+  // Without a query, list the notices recorded against the Act, newest first
+  if (query.length === 0) {
+    const { sql: where, params } = filter();
+    const rows = db.prepare(`
+      SELECT ${columns}, substr(gn.body, 1, 200) as snippet, NULL as relevance
+      FROM gazette_notices gn
+      LEFT JOIN legal_documents ld ON ld.id = gn.document_id
+      WHERE 1 = 1${where}
+      ORDER BY gn.issue_date DESC, CAST(gn.notice_number AS INTEGER) DESC
+      LIMIT ?
+    `).all(...params, limit) as GazetteNoticeResult[];
+    return { results: rows, _metadata: generateResponseMetadata(db) };
+  }
+
+  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(query));
+
+  for (const ftsQuery of queryVariants) {
+    const { sql: where, params } = filter();
+    const sql = `
+      SELECT ${columns},
+        snippet(gazette_notices_fts, 1, '>>>', '<<<', '...', 32) as snippet,
+        bm25(gazette_notices_fts) as relevance
+      FROM gazette_notices_fts
+      JOIN gazette_notices gn ON gn.id = gazette_notices_fts.rowid
+      LEFT JOIN legal_documents ld ON ld.id = gn.document_id
+      WHERE gazette_notices_fts MATCH ?${where}
+      ORDER BY relevance
+      LIMIT ?
+    `;
+
+    try {
+      const rows = db.prepare(sql).all(ftsQuery, ...params, limit) as GazetteNoticeResult[];
+      if (rows.length > 0) {
+        return { results: rows, _metadata: generateResponseMetadata(db) };
+      }
+    } catch {
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+
+  return { results: [], _metadata: generateResponseMetadata(db) };
+}
@@ -3,7 +3,11 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { buildFtsQueryVariants, hasFtsSyntax, parseFtsQuery, sanitizeFtsInput } from '../utils/fts-query.js';
+import { findQueryExpansions, type QueryExpansion } from '../utils/thesaurus.js';
+import { normalizeAsOfDate, provisionValidityClause } from '../utils/as-of-date.js';
+import { provisionStatusExpression, type ProvisionStatus } from '../utils/provision-status.js';
+import { normalizeLanguage, LANGUAGE_NAMES, type Language } from '../utils/language.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface SearchLegislationInput {
@@ -11,7 +15,13 @@ export interface SearchLegislationInput {
   document_id?: string;
   status?: string;
   as_of_date?: string;
+  /** "en" (default) or "sw"; falls back to English when nothing matches in Kiswahili. */
+  language?: string;
   limit?: number;
+  /** Skip this many results, to page through all matches (see _metadata.pagination.next_offset). */
+  offset?: number;
+  /** Include hit counts by Act, chapter and document status in _metadata.facets. */
+  facets?: boolean;
 }
 
 export interface SearchLegislationResult {
@@ -22,9 +32,29 @@ export interface SearchLegislationResult {
   section: string;
   title: string | null;
   snippet: string;
+  provision_status: ProvisionStatus;
+  /** Language of title and snippet. */
+  language: Language;
   relevance: number;
 }
 
+export interface SearchFacets {
+  documents: { document_id: string; document_title: string; count: number }[];
+  /** Counts per Part or Chapter within each Act; chapter is null for provisions outside one. */
+  chapters: { document_id: string; chapter: string | null; count: number }[];
+  document_statuses: { status: string; count: number }[];
+}
+
+interface SearchPage {
+  rows: SearchLegislationResult[];
+  /** Matches for the query variant that produced the page, across all pages. */
+  total: number;
+  facets?: SearchFacets;
+}
+
+/** Statuses that describe a whole Act rather than an individual provision. */
+const DOCUMENT_STATUSES = new Set(['amended', 'partially_suspended', 'not_yet_in_force']);
+
 const DEFAULT_LIMIT = 10;
 const MAX_LIMIT = 50;
 
@@ -36,50 +66,204 @@ export async function searchLegislation(
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (input.as_of_date && !asOfDate) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Invalid as_of_date "${input.as_of_date}". Use ISO 8601 (YYYY-MM-DD).` },
+      },
+    };
+  }
+  const language = normalizeLanguage(input.language);
+  if (!language) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Unsupported language "${input.language}". Use "en" or "sw".` },
+      },
+    };
+  }
+
+  const validity = provisionValidityClause('lp', asOfDate);
+  const provisionStatus = provisionStatusExpression('lp', 'ld', asOfDate);
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
-
-  for (const ftsQuery of queryVariants) {
-    let sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
-    `;
-    const params: (string | number)[] = [ftsQuery];
-
-    if (input.document_id) {
-      sql += ' AND lp.document_id = ?';
-      params.push(input.document_id);
-    }
+  const offset = Math.max(Math.floor(input.offset ?? 0), 0);
 
-    if (input.status) {
-      sql += ' AND ld.status = ?';
-      params.push(input.status);
+  // Queries written in FTS5 syntax run as written (once validated); plain
+  // words get thesaurus expansion and the phrase/AND/prefix variants
+  let queryVariants: string[];
+  let expansions: QueryExpansion[] = [];
+  if (hasFtsSyntax(input.query)) {
+    const parsed = parseFtsQuery(input.query, ['content', 'title']);
+    if (parsed.error) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{
+            note: `Invalid search syntax at character ${parsed.error.position + 1}: ${parsed.error.message}.`,
+            query_error: parsed.error,
+          },
+        },
+      };
     }
+    queryVariants = [parsed.query];
+  } else {
+    const sanitized = sanitizeFtsInput(input.query);
+    expansions = findQueryExpansions(sanitized);
+    queryVariants = buildFtsQueryVariants(sanitized, expansions);
+  }
+  const expansionMetadata = expansions.length > 0 ? { query_expansions: expansions } : {};
+
+  const search = (source: Language, stemmed = false): SearchPage => {
+    // Kiswahili texts are matched to the current English wording of the provision
+    const fts = source !== 'en' ? 'provision_translations_fts' : stemmed ? 'provisions_stem_fts' : 'provisions_fts';
+    const from = source === 'en'
+      ? `${fts}
+      JOIN legal_provisions lp ON lp.id = ${fts}.rowid`
+      : `provision_translations_fts
+      JOIN provision_translations pt ON pt.id = provision_translations_fts.rowid
+      JOIN legal_provisions lp ON lp.document_id = pt.document_id AND lp.provision_ref = pt.provision_ref AND lp.valid_to IS NULL`;
+
+    // The stemmed pass only tops up a page, so it widens through every variant
+    const collected: SearchLegislationResult[] = [];
+    for (const ftsQuery of queryVariants) {
+      let sql = `
+        SELECT
+          lp.document_id,
+          ld.title as document_title,
+          lp.provision_ref,
+          lp.chapter,
+          lp.section,
+          ${source === 'en' ? 'lp.title' : 'COALESCE(pt.title, lp.title) as title'},
+          snippet(${fts}, 0, '>>>', '<<<', '...', 32) as snippet,
+          ${provisionStatus.sql} as provision_status,
+          '${source}' as language,
+          bm25(${fts}) as relevance
+        FROM ${from}
+        JOIN legal_documents ld ON ld.id = lp.document_id
+        WHERE ${fts} MATCH ?
+          AND ${validity.sql}
+      `;
+      const params: (string | number)[] = [...provisionStatus.params, ftsQuery, ...validity.params];
+
+      if (source !== 'en') {
+        sql += ' AND pt.language = ?';
+        params.push(source);
+      }
+
+      if (input.document_id) {
+        sql += ' AND lp.document_id = ?';
+        params.push(input.document_id);
+      }
+
+      if (input.status && DOCUMENT_STATUSES.has(input.status)) {
+        sql += ' AND ld.status = ?';
+        params.push(input.status);
+      } else if (input.status) {
+        sql += ' AND provision_status = ?';
+        params.push(input.status);
+      }
+
+      try {
+        if (stemmed) {
+          collected.push(...db.prepare(`${sql} ORDER BY relevance LIMIT ?`).all(...params, limit) as SearchLegislationResult[]);
+          continue;
+        }
 
-    sql += ' ORDER BY relevance LIMIT ?';
-    params.push(limit);
+        const { total } = db.prepare(`SELECT COUNT(*) as total FROM (${sql})`).get(...params) as { total: number };
+        if (total === 0) continue;
 
-    try {
-      const rows = db.prepare(sql).all(...params) as SearchLegislationResult[];
-      if (rows.length > 0) {
-        return { results: rows, _metadata: generateResponseMetadata(db) };
+        const rows = db.prepare(`${sql} ORDER BY relevance LIMIT ? OFFSET ?`)
+          .all(...params, limit, offset) as SearchLegislationResult[];
+        return { rows, total, facets: input.facets ? buildFacets(sql, params) : undefined };
+      } catch {
+        // FTS query syntax error — try next variant
+        continue;
       }
-    } catch {
-      // FTS query syntax error — try next variant
-      continue;
     }
+    return { rows: collected, total: collected.length };
+  };
+
+  /** Hit counts over every match of the query, not just the current page. */
+  const buildFacets = (sql: string, params: (string | number)[]): SearchFacets => ({
+    documents: db.prepare(`
+      SELECT document_id, document_title, COUNT(*) as count
+      FROM (${sql})
+      GROUP BY document_id
+      ORDER BY count DESC, document_title
+    `).all(...params) as SearchFacets['documents'],
+    chapters: db.prepare(`
+      SELECT document_id, chapter, COUNT(*) as count
+      FROM (${sql})
+      GROUP BY document_id, chapter
+      ORDER BY count DESC, document_id, chapter
+    `).all(...params) as SearchFacets['chapters'],
+    document_statuses: db.prepare(`
+      SELECT d.status, COUNT(*) as count
+      FROM (${sql}) m
+      JOIN legal_documents d ON d.id = m.document_id
+      GROUP BY d.status
+      ORDER BY count DESC, d.status
+    `).all(...params) as SearchFacets['document_statuses'],
+  });
+
+  let stemmedCount = 0;
+  const respond = (page: SearchPage, notes: string[] = []): ToolResponse<SearchLegislationResult[]> => {
+    const exact = page.rows.length - stemmedCount;
+    // total and next_offset page through exact-term matches; stemmed ones only top up the first page
+    const pagination = {
+      offset,
+      limit,
+      total: page.total,
+      next_offset: offset + exact < page.total ? offset + exact : null,
+      stemmed_matches: stemmedCount,
+    };
+    const extra = {
+      ...expansionMetadata,
+      pagination,
+      ...(page.facets ? { facets: page.facets } : {}),
+      ...(notes.length > 0 ? { note: notes.join(' ') } : {}),
+    };
+    return { results: page.rows, _metadata: { ...generateResponseMetadata(db), ...extra } };
+  };
+
+  if (language !== 'en' && !asOfDate) {
+    const page = search(language);
+    if (page.total > 0) return respond(page);
+  }
+
+  const page = search('en');
+
+  // Exact-token matches come first; when they all fit on the first page,
+  // stemmed matches ("processed" for "processing") fill the rest of it
+  if (offset === 0 && page.rows.length < limit) {
+    const seen = new Set(page.rows.map(r => `${r.document_id}:${r.provision_ref}`));
+    for (const row of search('en', true).rows) {
+      if (page.rows.length >= limit) break;
+      const key = `${row.document_id}:${row.provision_ref}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      page.rows.push(row);
+      stemmedCount++;
+    }
+  }
+
+  const notes: string[] = [];
+  if (language !== 'en') {
+    notes.push(asOfDate
+      ? `${LANGUAGE_NAMES[language]} text covers current wordings only; searched English as of ${asOfDate}.`
+      : `No ${LANGUAGE_NAMES[language]} matches; showing English results.`);
+  }
+  if (stemmedCount > 0) {
+    notes.push(`${stemmedCount} result${stemmedCount === 1 ? '' : 's'} matched on word stems rather than exact terms.`);
+  }
+  if (page.facets && stemmedCount > 0) {
+    notes.push('Facets count exact-term matches only.');
   }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  return respond(page, notes);
 }
@@ -0,0 +1,84 @@
+/**
+ * semantic_search — Find Kenyan statute provisions related in meaning to a question.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { embedQuery, excerpt, hasEmbeddings, rankBySimilarity } from '../utils/embeddings.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface SemanticSearchInput {
+  query: string;
+  document_id?: string;
+  limit?: number;
+}
+
+export interface SemanticSearchResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  chapter: string | null;
+  section: string;
+  title: string | null;
+  /** Opening words of the provision. */
+  snippet: string;
+  /** Cosine similarity to the query, -1 to 1 (higher is closer). */
+  similarity: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function semanticSearch(
+  db: InstanceType<typeof Database>,
+  input: SemanticSearchInput,
+): Promise<ToolResponse<SemanticSearchResult[]>> {
+  if (!input.query || input.query.trim().length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  if (!hasEmbeddings(db)) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'This database was built without embeddings; rebuild it with npm run build:db.' },
+      },
+    };
+  }
+
+  const { vector, unknown_terms } = embedQuery(db, input.query);
+  const unknownMetadata = unknown_terms.length > 0 ? { unknown_terms } : {};
+  if (!vector) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...unknownMetadata,
+        ...{ note: 'None of the query words occur in the indexed provisions; try wording closer to the statutes.' },
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const ranked = rankBySimilarity(db, vector, { documentId: input.document_id, limit });
+
+  const lookup = db.prepare(`
+    SELECT
+      lp.document_id,
+      ld.title as document_title,
+      lp.provision_ref,
+      lp.chapter,
+      lp.section,
+      lp.title,
+      lp.content
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.id = ?
+  `);
+  const results = ranked.map(({ provision_id, similarity }) => {
+    const { content, ...row } = lookup.get(provision_id) as Omit<SemanticSearchResult, 'snippet' | 'similarity'> & { content: string };
+    return { ...row, snippet: excerpt(content, 40), similarity: Math.round(similarity * 10000) / 10000 };
+  });
+
+  return { results, _metadata: { ...generateResponseMetadata(db), ...unknownMetadata } };
+}
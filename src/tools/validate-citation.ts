@@ -4,6 +4,11 @@
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import {
+  getProvisionStatus, describeProvisionStatus, provisionStatusFromDocument,
+  type ProvisionStatus, type ProvisionStatusDetail,
+} from '../utils/provision-status.js';
+import { parsePinpoint, structureFromMetadata, findPinpoint, formatPinpoint, listPinpoints } from '../utils/pinpoint.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface ValidateCitationInput {
@@ -17,7 +22,10 @@ export interface ValidateCitationResult {
   document_id?: string;
   document_title?: string;
   provision_ref?: string;
+  pinpoint?: string;
   status?: string;
+  provision_status?: ProvisionStatus;
+  provision_status_detail?: ProvisionStatusDetail | null;
   warnings: string[];
 }
 
@@ -29,6 +37,7 @@ export interface ValidateCitationResult {
  * - "Section 25 of the Data Protection Act, 2019"
  * - "Data Protection Act 2019, Section 25"
  * - "Article 31, Constitution of Kenya 2010"
+ * - Subsection pinpoints: "Section 26(1)(b), Data Protection Act 2019"
  * - Just an Act title
  */
 function parseCitation(citation: string): { documentRef: string; sectionRef?: string } | null {
@@ -36,7 +45,7 @@ function parseCitation(citation: string): { documentRef: string; sectionRef?: st
 
   // "Section N, <Act>" or "s N, <Act>" or "Section N of the <Act>"
   const secFirst = trimmed.match(
-    /^(?:Section|s|sec\.?)\s*(\d+[A-Za-z]*)\s*(?:,|of(?:\s+the)?)\s+(.+)$/i
+    /^(?:Section|s|sec\.?)\s*(\d+[A-Za-z]*(?:\s*\(\s*[0-9A-Za-z]+\s*\))*)\s*(?:,|of(?:\s+the)?)\s+(.+)$/i
   );
   if (secFirst) {
     return { documentRef: secFirst[2].trim().replace(/^the\s+/i, ''), sectionRef: secFirst[1] };
@@ -44,7 +53,7 @@ function parseCitation(citation: string): { documentRef: string; sectionRef?: st
 
   // "Article N, <Act>" (Constitution)
   const artFirst = trimmed.match(
-    /^(?:Article|Art\.?)\s*(\d+[A-Za-z]*)\s*(?:,|of(?:\s+the)?)\s+(.+)$/i
+    /^(?:Article|Art\.?)\s*(\d+[A-Za-z]*(?:\s*\(\s*[0-9A-Za-z]+\s*\))*)\s*(?:,|of(?:\s+the)?)\s+(.+)$/i
   );
   if (artFirst) {
     return { documentRef: artFirst[2].trim().replace(/^the\s+/i, ''), sectionRef: artFirst[1] };
@@ -52,7 +61,7 @@ function parseCitation(citation: string): { documentRef: string; sectionRef?: st
 
   // "<Act>, Section N" or "<Act> Section N"
   const secLast = trimmed.match(
-    /^(.+?)[,;]?\s*(?:Section|s|sec\.?)\s*(\d+[A-Za-z]*)$/i
+    /^(.+?)[,;]?\s*(?:Section|s|sec\.?)\s*(\d+[A-Za-z]*(?:\s*\(\s*[0-9A-Za-z]+\s*\))*)$/i
   );
   if (secLast) {
     return { documentRef: secLast[1].trim(), sectionRef: secLast[2] };
@@ -60,7 +69,7 @@ function parseCitation(citation: string): { documentRef: string; sectionRef?: st
 
   // "<Act>, Article N"
   const artLast = trimmed.match(
-    /^(.+?)[,;]?\s*(?:Article|Art\.?)\s*(\d+[A-Za-z]*)$/i
+    /^(.+?)[,;]?\s*(?:Article|Art\.?)\s*(\d+[A-Za-z]*(?:\s*\(\s*[0-9A-Za-z]+\s*\))*)$/i
   );
   if (artLast) {
     return { documentRef: artLast[1].trim(), sectionRef: artLast[2] };
@@ -108,14 +117,16 @@ export async function validateCitationTool(
     warnings.push(`WARNING: This statute has been repealed.`);
   } else if (doc.status === 'amended') {
     warnings.push(`Note: This statute has been amended. Verify you are referencing the current version.`);
-  } else if (doc.status === 'partially_suspended') {
+  } else if (doc.status === 'partially_suspended' && !parsed.sectionRef) {
     warnings.push(`Note: Certain sections of this statute have been suspended. Verify which sections are in force.`);
   }
 
   if (parsed.sectionRef) {
+    const { base, path } = parsePinpoint(parsed.sectionRef);
+    const pinpoint = formatPinpoint(path);
     const provision = db.prepare(
-      "SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?)"
-    ).get(docId, parsed.sectionRef, `s${parsed.sectionRef}`, `art${parsed.sectionRef}`, parsed.sectionRef) as { provision_ref: string } | undefined;
+      "SELECT provision_ref, metadata FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR provision_ref = ? OR section = ?) AND valid_to IS NULL"
+    ).get(docId, base, `s${base}`, `art${base}`, base) as { provision_ref: string; metadata: string | null } | undefined;
 
     if (!provision) {
       return {
@@ -124,21 +135,53 @@ export async function validateCitationTool(
           citation: input.citation,
           document_id: docId,
           document_title: doc.title,
-          warnings: [...warnings, `Provision "${parsed.sectionRef}" not found in ${doc.title}`],
+          warnings: [...warnings, `Provision "${base}" not found in ${doc.title}`],
         },
         _metadata: generateResponseMetadata(db),
       };
     }
 
+    if (path.length > 0) {
+      const structure = structureFromMetadata(provision.metadata);
+      if (!structure || !findPinpoint(structure, path)) {
+        const available = structure ? listPinpoints(structure) : [];
+        return {
+          results: {
+            valid: false,
+            citation: input.citation,
+            document_id: docId,
+            document_title: doc.title,
+            provision_ref: provision.provision_ref,
+            warnings: [
+              ...warnings,
+              `${pinpoint} not found in section ${base} of ${doc.title}` +
+                (available.length > 0 ? ` (it is divided into ${available.join(', ')})` : ' (it has no numbered subsections)'),
+            ],
+          },
+          _metadata: generateResponseMetadata(db),
+        };
+      }
+    }
+
+    const detail = getProvisionStatus(db, docId, provision.provision_ref);
+    if (detail) {
+      warnings.push(`WARNING: ${describeProvisionStatus(provision.provision_ref, detail)}`);
+    } else if (doc.status === 'partially_suspended') {
+      warnings.push(`Note: ${provision.provision_ref} is not among the suspended provisions of this statute.`);
+    }
+
     return {
       results: {
         valid: true,
         citation: input.citation,
-        normalized: `Section ${parsed.sectionRef}, ${doc.title}`,
+        normalized: `Section ${base}${pinpoint}, ${doc.title}`,
         document_id: docId,
         document_title: doc.title,
         provision_ref: provision.provision_ref,
+        ...(pinpoint ? { pinpoint } : {}),
         status: doc.status,
+        provision_status: detail?.status ?? provisionStatusFromDocument(doc.status),
+        provision_status_detail: detail,
         warnings,
       },
       _metadata: generateResponseMetadata(db),
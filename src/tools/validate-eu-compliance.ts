@@ -21,6 +21,39 @@ export interface EUComplianceResult {
   recommendations: string[];
 }
 
+interface SupersededReference {
+  provision_ref: string | null;
+  type: string;
+  year: number;
+  number: number;
+  community: string | null;
+  short_name: string | null;
+  repealed_by: string | null;
+  replacement_type: string | null;
+  replacement_year: number | null;
+  replacement_number: number | null;
+  replacement_community: string | null;
+  replacement_short_name: string | null;
+  description: string | null;
+}
+
+/**
+ * Formal citation of an EU instrument: "Directive 95/46/EC", "Regulation (EC) No 139/2004",
+ * or, under the numbering used since 2015, "Regulation (EU) 2016/679".
+ */
+function euCitation(type: string, year: number, number: number, community: string | null, shortName: string | null): string {
+  const issuer = community ?? 'EU';
+  let citation: string;
+  if (year >= 2015) {
+    citation = `${type === 'regulation' ? 'Regulation' : 'Directive'} (${issuer}) ${year}/${number}`;
+  } else if (type === 'regulation') {
+    citation = `Regulation (${issuer}) No ${number}/${year}`;
+  } else {
+    citation = `Directive ${year < 1999 ? String(year).slice(2) : year}/${number}/${issuer}`;
+  }
+  return shortName ? `${citation} (${shortName})` : citation;
+}
+
 export async function validateEUCompliance(
   db: InstanceType<typeof Database>,
   input: ValidateEUComplianceInput,
@@ -93,6 +126,41 @@ export async function validateEUCompliance(
     recommendations.push('Check for replacement legislation.');
   }
 
+  // References to EU instruments that have since been repealed or lost force
+  let supersededSql = `
+    SELECT DISTINCT
+      lp.provision_ref,
+      ed.type, ed.year, ed.number, ed.community, ed.short_name, ed.repealed_by, ed.description,
+      rb.type as replacement_type, rb.year as replacement_year, rb.number as replacement_number,
+      rb.community as replacement_community, rb.short_name as replacement_short_name
+    FROM eu_references er
+    JOIN eu_documents ed ON ed.id = er.eu_document_id
+    LEFT JOIN eu_documents rb ON rb.id = ed.repealed_by
+    LEFT JOIN legal_provisions lp ON lp.id = er.provision_id
+    WHERE er.document_id = ? AND (ed.in_force = 0 OR ed.repealed_by IS NOT NULL)
+  `;
+  const supersededParams: string[] = [resolvedId];
+  if (input.eu_document_id) {
+    supersededSql += ' AND er.eu_document_id = ?';
+    supersededParams.push(input.eu_document_id);
+  }
+  const superseded = db.prepare(`${supersededSql} ORDER BY lp.id`).all(...supersededParams) as SupersededReference[];
+
+  for (const ref of superseded) {
+    const cited = euCitation(ref.type, ref.year, ref.number, ref.community, ref.short_name);
+    const where = ref.provision_ref ? `Section ${ref.provision_ref.replace(/^s/, '')}` : 'The statute';
+    const detail = ref.description ? ` ${ref.description}.` : '';
+    if (ref.repealed_by) {
+      const replacement = ref.replacement_type
+        ? euCitation(ref.replacement_type, ref.replacement_year!, ref.replacement_number!, ref.replacement_community, ref.replacement_short_name)
+        : ref.repealed_by;
+      warnings.push(`${where} cites ${cited}, which has been repealed by ${replacement}.${detail}`);
+      recommendations.push(`Compare ${ref.provision_ref ? where : 'the statute'} with ${replacement}.`);
+    } else {
+      warnings.push(`${where} cites ${cited}, which is no longer in force.${detail}`);
+    }
+  }
+
   // Check implementation status
   const statuses = db.prepare(
     'SELECT implementation_status, COUNT(*) as count FROM eu_references WHERE document_id = ? GROUP BY implementation_status'
@@ -104,11 +172,13 @@ export async function validateEUCompliance(
   const unknownCount = statusMap.get('unknown') ?? 0;
 
   let compliance_status: 'compliant' | 'partial' | 'unclear' | 'not_applicable';
-  if (completeCount > 0 && partialCount === 0 && unknownCount === 0) {
+  if (completeCount > 0 && partialCount === 0 && unknownCount === 0 && superseded.length === 0) {
     compliance_status = 'compliant';
-  } else if (partialCount > 0) {
+  } else if (partialCount > 0 || superseded.length > 0) {
     compliance_status = 'partial';
-    warnings.push(`${partialCount} EU/international reference(s) have partial implementation status.`);
+    if (partialCount > 0) {
+      warnings.push(`${partialCount} EU/international reference(s) have partial implementation status.`);
+    }
   } else {
     compliance_status = 'unclear';
     if (unknownCount > 0) {
@@ -116,6 +186,28 @@ export async function validateEUCompliance(
     }
   }
 
+  // The status rests on the curated mappings; say so when the EU wording itself cannot be read here
+  let missingSql = `
+    SELECT COUNT(DISTINCT er.eu_document_id || ' ' || er.eu_article) as mapped,
+      COUNT(DISTINCT CASE WHEN ep.id IS NULL THEN er.eu_document_id || ' ' || er.eu_article END) as missing
+    FROM eu_references er
+    LEFT JOIN eu_provisions ep ON ep.eu_document_id = er.eu_document_id AND ep.article = er.eu_article
+    WHERE er.document_id = ? AND er.eu_article IS NOT NULL
+  `;
+  const missingParams: string[] = [resolvedId];
+  if (input.eu_document_id) {
+    missingSql += ' AND er.eu_document_id = ?';
+    missingParams.push(input.eu_document_id);
+  }
+  const articleText = db.prepare(missingSql).get(...missingParams) as { mapped: number; missing: number };
+  if (articleText.missing > 0) {
+    warnings.push(
+      `The EU text is missing from this database for ${articleText.missing} of the ${articleText.mapped} EU articles ` +
+      'this statute is mapped to; this status rests on the curated mappings, not on a reading of those articles.',
+    );
+    recommendations.push('Read the unbundled articles on EUR-Lex (compare_with_eu gives the links) before relying on this status.');
+  }
+
   return {
     results: {
       document_id: resolvedId,
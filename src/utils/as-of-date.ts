@@ -25,3 +25,22 @@ export function normalizeAsOfDate(input?: string): string | null {
 
   return null;
 }
+
+export interface ValidityClause {
+  sql: string;
+  params: string[];
+}
+
+/**
+ * Build a SQL predicate selecting the provision version in force on a date.
+ * Without a date, only the current version (valid_to IS NULL) matches.
+ */
+export function provisionValidityClause(alias: string, asOfDate: string | null): ValidityClause {
+  if (!asOfDate) {
+    return { sql: `${alias}.valid_to IS NULL`, params: [] };
+  }
+  return {
+    sql: `(${alias}.valid_from IS NULL OR ${alias}.valid_from <= ?) AND (${alias}.valid_to IS NULL OR ${alias}.valid_to > ?)`,
+    params: [asOfDate, asOfDate],
+  };
+}
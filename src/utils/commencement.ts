@@ -0,0 +1,84 @@
+/**
+ * Commencement of Acts brought into force in stages.
+ *
+ * legal_documents.in_force_date holds one date per Act; the commencements
+ * table records which provisions each Legal Notice brought into force, and when.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export interface CommencementRecord {
+  /** Provisions as listed in the instrument (e.g. "s1-s10, s25"); null for the whole Act or the remainder. */
+  provisions: string | null;
+  commencement_date: string;
+  /** null when the Act commenced on its own terms. */
+  legal_notice: string | null;
+  note: string | null;
+}
+
+export interface ProvisionCommencement extends Omit<CommencementRecord, 'commencement_date'> {
+  /** Whether the provision was in force on the date asked about. */
+  in_force: boolean;
+  /** null when no recorded instrument brings the provision into force. */
+  commencement_date: string | null;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Commencement instruments recorded for an Act, earliest first.
+ */
+export function listCommencements(db: InstanceType<typeof Database>, documentId: string): CommencementRecord[] {
+  return db.prepare(`
+    SELECT provisions, commencement_date, legal_notice, note
+    FROM commencements
+    WHERE document_id = ?
+    GROUP BY provisions, commencement_date, legal_notice
+    ORDER BY commencement_date, provisions IS NULL
+  `).all(documentId) as CommencementRecord[];
+}
+
+/**
+ * When and by which instrument a provision came into force, judged on a date
+ * (today by default). A provision-specific entry takes precedence over the
+ * whole-Act entry. Returns null when no commencement is recorded for the Act.
+ */
+export function getProvisionCommencement(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+  asOfDate?: string | null,
+): ProvisionCommencement | null {
+  const recorded = db.prepare('SELECT 1 FROM commencements WHERE document_id = ? LIMIT 1').get(documentId);
+  if (!recorded) return null;
+
+  const row = db.prepare(`
+    SELECT provisions, commencement_date, legal_notice, note
+    FROM commencements
+    WHERE document_id = ? AND (provision_ref = ? OR provision_ref IS NULL)
+    ORDER BY provision_ref IS NULL, commencement_date
+    LIMIT 1
+  `).get(documentId, provisionRef) as CommencementRecord | undefined;
+
+  if (!row) {
+    return { provisions: null, commencement_date: null, legal_notice: null, note: null, in_force: false };
+  }
+  return { ...row, in_force: row.commencement_date <= (asOfDate ?? today()) };
+}
+
+/**
+ * Human-readable answer to "was this provision in force on the date, and by which instrument".
+ */
+export function describeCommencement(provisionRef: string, commencement: ProvisionCommencement, asOfDate?: string | null): string {
+  const instrument = commencement.legal_notice ? `under ${commencement.legal_notice}` : 'on the terms of the Act';
+  if (!commencement.commencement_date) {
+    return `${provisionRef} has not been brought into force by any recorded commencement instrument.`;
+  }
+  if (commencement.in_force) {
+    return `${provisionRef} came into force on ${commencement.commencement_date} ${instrument}.`;
+  }
+  const verb = commencement.commencement_date <= today() ? 'came into force' : 'comes into force';
+  return `${provisionRef} was not in force on ${asOfDate ?? today()}; it ${verb} on ${commencement.commencement_date} ${instrument}.`;
+}
@@ -0,0 +1,155 @@
+/**
+ * Vector search over provisions.
+ *
+ * Embeddings come from latent semantic analysis trained on the corpus at
+ * build time (scripts/lib/embeddings.ts): each indexed word has a vector, a
+ * provision's vector is the TF-IDF weighted sum of its words' vectors, and a
+ * query is embedded the same way from embedding_terms. Nothing is fetched at
+ * query time.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+/** Words too common in statute text to say anything about a provision's subject. */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'may', 'me', 'my',
+  'no', 'not', 'of', 'on', 'or', 'our', 'shall', 'she', 'so', 'such', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'to', 'under', 'upon', 'was', 'we', 'were',
+  'what', 'when', 'where', 'whether', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Words of a text as the embedding model sees them: lower-cased letters and
+ * digits, without stopwords, one-letter words or bare numbers.
+ */
+export function embeddingTokens(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(t => t.length > 1 && !/^\d+$/.test(t) && !STOPWORDS.has(t));
+}
+
+/** Term counts of a tokenised text. */
+export function termFrequencies(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  return counts;
+}
+
+/** Log-scaled TF-IDF weight of a term. */
+export function termWeight(tf: number, idf: number): number {
+  return (1 + Math.log(tf)) * idf;
+}
+
+export function encodeVector(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function decodeVector(blob: Uint8Array): Float32Array {
+  // Copy: the blob's buffer need not be 4-byte aligned
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+export function hasEmbeddings(db: InstanceType<typeof Database>): boolean {
+  const row = db.prepare(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table' AND name IN ('provision_embeddings', 'embedding_terms')"
+  ).get() as { count: number };
+  return row.count === 2;
+}
+
+export interface QueryEmbedding {
+  vector: Float32Array | null;
+  /** Query words the model has no vector for. */
+  unknown_terms: string[];
+}
+
+/**
+ * Embed a query with the stored term vectors. vector is null when none of its
+ * words are in the model's vocabulary.
+ */
+export function embedQuery(db: InstanceType<typeof Database>, query: string): QueryEmbedding {
+  const counts = termFrequencies(embeddingTokens(query));
+  if (counts.size === 0) return { vector: null, unknown_terms: [] };
+
+  const terms = [...counts.keys()];
+  const rows = db.prepare(
+    `SELECT term, idf, vector FROM embedding_terms WHERE term IN (${terms.map(() => '?').join(', ')})`
+  ).all(...terms) as { term: string; idf: number; vector: Uint8Array }[];
+
+  let vector: Float32Array | null = null;
+  for (const row of rows) {
+    const termVector = decodeVector(row.vector);
+    vector ??= new Float32Array(termVector.length);
+    const weight = termWeight(counts.get(row.term)!, row.idf);
+    for (let i = 0; i < termVector.length; i++) vector[i] += weight * termVector[i];
+  }
+
+  const known = new Set(rows.map(r => r.term));
+  return { vector, unknown_terms: terms.filter(t => !known.has(t)) };
+}
+
+export interface SimilarProvision {
+  provision_id: number;
+  similarity: number;
+}
+
+/**
+ * Current provisions closest to a query vector, most similar first.
+ */
+export function rankBySimilarity(
+  db: InstanceType<typeof Database>,
+  queryVector: Float32Array,
+  options: { documentId?: string; limit: number },
+): SimilarProvision[] {
+  let sql = `
+    SELECT pe.provision_id, pe.vector
+    FROM provision_embeddings pe
+    JOIN legal_provisions lp ON lp.id = pe.provision_id
+    WHERE lp.valid_to IS NULL
+  `;
+  const params: string[] = [];
+  if (options.documentId) {
+    sql += ' AND lp.document_id = ?';
+    params.push(options.documentId);
+  }
+
+  const rows = db.prepare(sql).all(...params) as { provision_id: number; vector: Uint8Array }[];
+  return rows
+    .map(row => ({ provision_id: row.provision_id, similarity: cosine(queryVector, decodeVector(row.vector)) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit);
+}
+
+/**
+ * Cosine similarity between a provision and an outside text embedded with the
+ * same model. Null when the provision has no vector or none of the text's
+ * words are in the vocabulary.
+ */
+export function provisionSimilarity(
+  db: InstanceType<typeof Database>,
+  provisionId: number,
+  text: string,
+): number | null {
+  const row = db.prepare('SELECT vector FROM provision_embeddings WHERE provision_id = ?').get(provisionId) as
+    { vector: Uint8Array } | undefined;
+  if (!row) return null;
+  const { vector } = embedQuery(db, text);
+  return vector ? cosine(decodeVector(row.vector), vector) : null;
+}
+
+/** The opening words of a provision, for results that have no FTS snippet. */
+export function excerpt(content: string, words: number): string {
+  const parts = content.split(/\s+/);
+  return parts.length <= words ? content : `${parts.slice(0, words).join(' ')}...`;
+}
@@ -4,6 +4,8 @@
  * Handles query sanitization and variant generation for SQLite FTS5.
  */
 
+import type { QueryExpansion } from './thesaurus.js';
+
 /**
  * Sanitize user input for safe FTS5 queries.
  * Removes characters that have special meaning in FTS5 syntax.
@@ -19,10 +21,11 @@ export function sanitizeFtsInput(input: string): string {
  * Build FTS5 query variants for a search term.
  * Returns variants in order of specificity (most specific first):
  * 1. Exact phrase match
- * 2. All terms required (AND)
+ * 2. All terms required (AND); with expansions, each expanded term is
+ *    OR-ed with its thesaurus equivalents
  * 3. Prefix match on last term
  */
-export function buildFtsQueryVariants(sanitized: string): string[] {
+export function buildFtsQueryVariants(sanitized: string, expansions: QueryExpansion[] = []): string[] {
   if (!sanitized || sanitized.trim().length === 0) {
     return [];
   }
@@ -38,7 +41,7 @@ export function buildFtsQueryVariants(sanitized: string): string[] {
   }
 
   // AND query
-  variants.push(terms.join(' AND '));
+  variants.push(expandTerms(terms, expansions).join(' AND '));
 
   // Prefix match on last term (for autocomplete-like behavior)
   if (terms.length === 1 && terms[0].length >= 3) {
@@ -50,3 +53,265 @@ export function buildFtsQueryVariants(sanitized: string): string[] {
 
   return variants;
 }
+
+/**
+ * Replace the words of each expansion with an OR group of the term and its
+ * equivalents. Expansions are matched in order, as findQueryExpansions returns them.
+ */
+function expandTerms(terms: string[], expansions: QueryExpansion[]): string[] {
+  const result: string[] = [];
+  let pending = 0;
+  for (let i = 0; i < terms.length; i++) {
+    const expansion = expansions[pending];
+    const length = expansion ? expansion.term.split(' ').length : 0;
+    if (expansion && terms.slice(i, i + length).join(' ') === expansion.term) {
+      const alternatives = [expansion.term, ...expansion.equivalents].map(t => `"${t}"`);
+      result.push(`(${alternatives.join(' OR ')})`);
+      i += length - 1;
+      pending++;
+    } else {
+      result.push(terms[i]);
+    }
+  }
+  return result;
+}
+
+/** Why a query using FTS5 syntax could not be run, and where. */
+export interface FtsSyntaxError {
+  message: string;
+  /** Zero-based character offset in the query. */
+  position: number;
+}
+
+export type ParsedFtsQuery =
+  | { query: string; error?: undefined }
+  | { query?: undefined; error: FtsSyntaxError };
+
+/** Columns a query may filter on with `column:`. */
+const FILTER_COLUMNS = /(^|[\s(])(content|title)\s*:/i;
+
+/**
+ * Whether a query uses FTS5 syntax (quoted phrases, parentheses, prefix `*`,
+ * upper-case AND/OR/NOT/NEAR, `-term` or a `content:`/`title:` filter) rather than
+ * plain words. Any other "word:" ("Data Protection Act: consent",
+ * "http://...") is ordinary text.
+ */
+export function hasFtsSyntax(input: string): boolean {
+  return /["()*]/.test(input)
+    || /\b(AND|OR|NOT|NEAR)\b/.test(input)
+    || /(^|[\s(])-[\p{L}\p{N}"(]/u.test(input)
+    || FILTER_COLUMNS.test(input);
+}
+
+type TokenType = 'phrase' | 'word' | 'and' | 'or' | 'not' | 'near' | 'lparen' | 'rparen' | 'star' | 'colon' | 'comma';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const PUNCTUATION: Record<string, TokenType> = {
+  '(': 'lparen', ')': 'rparen', '*': 'star', ':': 'colon', ',': 'comma',
+};
+
+const TERM_START: TokenType[] = ['phrase', 'word', 'near', 'lparen'];
+
+/** A word FTS5 accepts unquoted; anything else ("anti-money", "s.26") is quoted as a phrase. */
+function serializeTerm(token: Token): string {
+  if (token.type === 'word' && /^[\p{L}\p{N}_]+$/u.test(token.text)) return token.text;
+  return `"${token.text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Validate a query written in FTS5 syntax and rewrite it in canonical form.
+ * Supports quoted phrases, AND/OR/NOT, `-term` (as NOT term), parentheses,
+ * prefix `*`, NEAR(...) and `column:` filters on the given columns; a colon
+ * after any other word is ignored. Invalid syntax is reported with its
+ * position rather than passed to SQLite.
+ *
+ * Precedence follows FTS5: NOT binds tighter than AND, AND tighter than OR,
+ * and adjacent terms are an implicit AND.
+ */
+export function parseFtsQuery(input: string, columns: string[]): ParsedFtsQuery {
+  const state: { failure?: FtsSyntaxError } = {};
+  const fail = (message: string, position: number): never => {
+    state.failure = { message, position };
+    throw new Error(message);
+  };
+
+  const tokenize = (): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < input.length) {
+      const ch = input[i];
+      if (/\s/.test(ch)) {
+        i++;
+      } else if (ch === '"') {
+        // "" inside a phrase is a literal quote, as in FTS5
+        let text = '';
+        let j = i + 1;
+        for (;;) {
+          if (j >= input.length) fail('Unterminated quoted phrase', i);
+          if (input[j] === '"' && input[j + 1] === '"') {
+            text += '"';
+            j += 2;
+          } else if (input[j] === '"') {
+            break;
+          } else {
+            text += input[j++];
+          }
+        }
+        if (text.trim().length === 0) fail('Empty quoted phrase', i);
+        tokens.push({ type: 'phrase', text, position: i });
+        i = j + 1;
+      } else if (ch === '-' && /[\p{L}\p{N}"(]/u.test(input[i + 1] ?? '') && (i === 0 || /[\s(]/.test(input[i - 1]))) {
+        // "-term" excludes the term, as in web search
+        tokens.push({ type: 'not', text: '-', position: i });
+        i++;
+      } else if (ch === ':' && !(tokens.at(-1)?.type === 'word' && columns.includes(tokens.at(-1)!.text.toLowerCase()))) {
+        // Only a column name makes a filter; "Act: consent" is punctuation
+        i++;
+      } else if (PUNCTUATION[ch]) {
+        tokens.push({ type: PUNCTUATION[ch], text: ch, position: i });
+        i++;
+      } else {
+        const text = /^[^\s"(),*:]+/.exec(input.slice(i))![0];
+        if (/^near$/i.test(text) && text !== 'NEAR' && input[i + 4] === '(') {
+          fail('NEAR must be written in capitals, as NEAR(...)', i);
+        }
+        const type: TokenType | null = text === 'AND' ? 'and'
+          : text === 'OR' ? 'or'
+          : text === 'NOT' ? 'not'
+          : text === 'NEAR' && input[i + 4] === '(' ? 'near'
+          : /[\p{L}\p{N}]/u.test(text) ? 'word'
+          : null; // bare punctuation ("-", "§") carries no searchable token
+        if (type) tokens.push({ type, text, position: i });
+        i += text.length;
+      }
+    }
+    return tokens;
+  };
+
+  let tokens: Token[] = [];
+  let index = 0;
+  const peek = (offset = 0): Token | undefined => tokens[index + offset];
+
+  const term = (): string => {
+    const token = tokens[index++];
+    if (peek()?.type === 'star') {
+      index++;
+      return `${serializeTerm(token)}*`;
+    }
+    return serializeTerm(token);
+  };
+
+  // NEAR(term term ... [, distance])
+  const near = (): string => {
+    const start = tokens[index];
+    index += 2; // NEAR and its opening parenthesis
+    const terms: string[] = [];
+    while (peek()?.type === 'phrase' || peek()?.type === 'word') {
+      terms.push(term());
+    }
+    if (terms.length < 2) fail('NEAR needs at least two terms', start.position);
+
+    let distance = '';
+    if (peek()?.type === 'comma') {
+      index++;
+      const value = peek();
+      if (!value || value.type !== 'word' || !/^\d+$/.test(value.text)) {
+        fail('NEAR distance must be a whole number', value?.position ?? input.length);
+      }
+      distance = `, ${value!.text}`;
+      index++;
+    }
+    if (peek()?.type !== 'rparen') fail('Missing closing parenthesis for NEAR', start.position);
+    index++;
+    return `NEAR(${terms.join(' ')}${distance})`;
+  };
+
+  const primary = (): string => {
+    const token = peek();
+    if (!token) {
+      return fail(`Query ends after "${tokens[index - 1].text}"; expected a term`, input.length);
+    }
+
+    if (token.type === 'word' && peek(1)?.type === 'colon') {
+      const column = token.text.toLowerCase();
+      index += 2;
+      const target = peek();
+      if (!target || !TERM_START.includes(target.type)) {
+        fail(`Expected a term after "${token.text}:"`, target?.position ?? input.length);
+      }
+      return `${column}:${primary()}`;
+    }
+
+    switch (token.type) {
+      case 'lparen': {
+        index++;
+        if (peek()?.type === 'rparen') fail('Empty parentheses', token.position);
+        const inner = orExpression();
+        if (peek()?.type !== 'rparen') fail('Missing closing parenthesis', token.position);
+        index++;
+        return `(${inner})`;
+      }
+      case 'near':
+        return near();
+      case 'phrase':
+      case 'word':
+        return term();
+      case 'and':
+      case 'or':
+      case 'not':
+        return fail(`"${token.text}" needs a term before it`, token.position);
+      default:
+        return fail(`Unexpected "${token.text}"`, token.position);
+    }
+  };
+
+  const notExpression = (): string => {
+    let expression = primary();
+    while (peek()?.type === 'not') {
+      index++;
+      expression += ` NOT ${primary()}`;
+    }
+    return expression;
+  };
+
+  const andExpression = (): string => {
+    const parts = [notExpression()];
+    for (;;) {
+      const next = peek();
+      if (next?.type === 'and') {
+        index++;
+        parts.push(notExpression());
+      } else if (next && TERM_START.includes(next.type)) {
+        parts.push(notExpression());
+      } else {
+        return parts.join(' AND ');
+      }
+    }
+  };
+
+  function orExpression(): string {
+    const parts = [andExpression()];
+    while (peek()?.type === 'or') {
+      index++;
+      parts.push(andExpression());
+    }
+    return parts.join(' OR ');
+  }
+
+  try {
+    tokens = tokenize();
+    if (tokens.length === 0) fail('Query has no searchable terms', 0);
+    const query = orExpression();
+    const next = peek();
+    if (next) fail(`Unexpected "${next.text}"`, next.position);
+    return { query };
+  } catch (error) {
+    if (state.failure) return { error: state.failure };
+    throw error;
+  }
+}
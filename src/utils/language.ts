@@ -0,0 +1,45 @@
+/**
+ * Language variants of provision text.
+ *
+ * English is the language of the legal_provisions table; Kiswahili texts,
+ * where Kenya Law publishes them, are in provision_translations keyed by the
+ * English provision_ref. Requests for a language without a text fall back to English.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export type Language = 'en' | 'sw';
+
+export const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', sw: 'Kiswahili' };
+
+export interface ProvisionTranslation {
+  title: string | null;
+  content: string;
+  metadata: string | null;
+}
+
+/**
+ * Normalise a language parameter ("sw", "swa", "Kiswahili", "en", "English").
+ * Returns null for unsupported values.
+ */
+export function normalizeLanguage(input?: string): Language | null {
+  const value = (input ?? 'en').trim().toLowerCase();
+  if (['en', 'eng', 'english'].includes(value)) return 'en';
+  if (['sw', 'swa', 'swahili', 'kiswahili'].includes(value)) return 'sw';
+  return null;
+}
+
+/**
+ * Text of a provision in a language other than English, or null if none is stored.
+ */
+export function getProvisionTranslation(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+  language: Exclude<Language, 'en'>,
+): ProvisionTranslation | null {
+  const row = db.prepare(
+    'SELECT title, content, metadata FROM provision_translations WHERE document_id = ? AND provision_ref = ? AND language = ?'
+  ).get(documentId, provisionRef, language) as ProvisionTranslation | undefined;
+  return row ?? null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Subsection and paragraph pinpoints (e.g. "s26(1)(b)").
+ *
+ * Provisions carry a subsection/paragraph tree in legal_provisions.metadata
+ * (key "structure"), built by the ingestion parser.
+ */
+
+export interface ProvisionNode {
+  num: string;
+  text: string;
+  children?: ProvisionNode[];
+}
+
+export interface ParsedPinpoint {
+  /** Section reference without the pinpoint, e.g. "s26" or "26". */
+  base: string;
+  /** Unit numbers from outermost to innermost, e.g. ["1", "b"]. */
+  path: string[];
+}
+
+export interface PinpointMatch {
+  node: ProvisionNode;
+  /** Text of the enclosing units that introduces the matched unit. */
+  lead_in: string;
+}
+
+/**
+ * Split a reference such as "s26(1)(b)" or "26 (1) (b)" into section and path.
+ * Returns a pinpoint with an empty path when there are no bracketed units.
+ */
+export function parsePinpoint(ref: string): ParsedPinpoint {
+  const trimmed = ref.trim();
+  const match = trimmed.match(/^(.*?\d+[A-Za-z]*)\s*((?:\(\s*[0-9A-Za-z]+\s*\)\s*)+)$/);
+  if (!match) return { base: trimmed, path: [] };
+
+  const path = [...match[2].matchAll(/\(\s*([0-9A-Za-z]+)\s*\)/g)].map(m => m[1]);
+  return { base: match[1].trim(), path };
+}
+
+/**
+ * Format a pinpoint path as it is cited, e.g. ["1", "b"] -> "(1)(b)".
+ */
+export function formatPinpoint(path: string[]): string {
+  return path.map(p => `(${p})`).join('');
+}
+
+/**
+ * Read the subsection tree from a provision's metadata column.
+ */
+export function structureFromMetadata(metadata: unknown): ProvisionNode | null {
+  if (typeof metadata !== 'string' || metadata.length === 0) return null;
+  try {
+    const parsed = JSON.parse(metadata) as { structure?: ProvisionNode };
+    return parsed.structure ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Walk the tree along a pinpoint path. Numbers are matched exactly first,
+ * then case-insensitively, so "(2a)" finds subsection (2A).
+ */
+export function findPinpoint(structure: ProvisionNode, path: string[]): PinpointMatch | null {
+  let node = structure;
+  const leadIn: string[] = [];
+
+  for (const num of path) {
+    const children = node.children ?? [];
+    const next = children.find(c => c.num === num)
+      ?? children.find(c => c.num.toLowerCase() === num.toLowerCase());
+    if (!next) return null;
+    if (node.text) leadIn.push(node.num ? `(${node.num}) ${node.text}` : node.text);
+    node = next;
+  }
+
+  return { node, lead_in: leadIn.join(' ') };
+}
+
+/**
+ * Render a unit and everything beneath it back to citation-style text.
+ */
+export function renderPinpoint(node: ProvisionNode): string {
+  const own = node.num ? `(${node.num}) ${node.text}` : node.text;
+  return [own, ...(node.children ?? []).map(renderPinpoint)].filter(t => t.length > 0).join(' ');
+}
+
+/**
+ * Top-level pinpoints available under a unit, for "not found" notes.
+ */
+export function listPinpoints(node: ProvisionNode): string[] {
+  return (node.children ?? []).map(c => `(${c.num})`);
+}
@@ -0,0 +1,101 @@
+/**
+ * Provision-level status (suspended, repealed, not commenced, spent).
+ *
+ * Document status only says that *something* in an Act is affected; the
+ * provision_status table records which sections, on whose authority and when.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export type ProvisionStatus = 'in_force' | 'suspended' | 'repealed' | 'not_commenced' | 'spent';
+
+export interface ProvisionStatusDetail {
+  status: Exclude<ProvisionStatus, 'in_force'>;
+  authority_type: 'court_order' | 'legal_notice' | 'statute';
+  authority: string;
+  effective_date: string | null;
+  end_date: string | null;
+  note: string | null;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Status a provision inherits from its Act when no provision-level record applies.
+ */
+export function provisionStatusFromDocument(documentStatus: string): ProvisionStatus {
+  if (documentStatus === 'repealed') return 'repealed';
+  if (documentStatus === 'not_yet_in_force') return 'not_commenced';
+  return 'in_force';
+}
+
+/**
+ * SQL expression evaluating to the effective status of a provision on a date.
+ * Falls back to provisionStatusFromDocument() when no provision-level record applies.
+ */
+export function provisionStatusExpression(
+  provisionAlias: string,
+  documentAlias: string,
+  asOfDate: string | null,
+): { sql: string; params: string[] } {
+  const date = asOfDate ?? today();
+  return {
+    sql: `COALESCE(
+      (SELECT ps.status FROM provision_status ps
+        WHERE ps.document_id = ${provisionAlias}.document_id
+          AND ps.provision_ref = ${provisionAlias}.provision_ref
+          AND (ps.effective_date IS NULL OR ps.effective_date <= ?)
+          AND (ps.end_date IS NULL OR ps.end_date > ?)
+        ORDER BY ps.effective_date DESC LIMIT 1),
+      CASE ${documentAlias}.status
+        WHEN 'repealed' THEN 'repealed'
+        WHEN 'not_yet_in_force' THEN 'not_commenced'
+        ELSE 'in_force'
+      END)`,
+    params: [date, date],
+  };
+}
+
+/**
+ * The status record applying to a provision on a date (today by default),
+ * or null if the provision is unaffected beyond its document status.
+ */
+export function getProvisionStatus(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+  asOfDate?: string | null,
+): ProvisionStatusDetail | null {
+  const date = asOfDate ?? today();
+  const row = db.prepare(`
+    SELECT status, authority_type, authority, effective_date, end_date, note
+    FROM provision_status
+    WHERE document_id = ? AND provision_ref = ?
+      AND (effective_date IS NULL OR effective_date <= ?)
+      AND (end_date IS NULL OR end_date > ?)
+    ORDER BY effective_date DESC
+    LIMIT 1
+  `).get(documentId, provisionRef, date, date) as ProvisionStatusDetail | undefined;
+  return row ?? null;
+}
+
+/**
+ * Human-readable warning for a provision-level status record.
+ */
+export function describeProvisionStatus(provisionRef: string, detail: ProvisionStatusDetail): string {
+  const label: Record<ProvisionStatusDetail['status'], string> = {
+    suspended: 'is suspended',
+    repealed: 'has been repealed',
+    not_commenced: 'has not been brought into force',
+    spent: 'is spent',
+  };
+  const source = detail.authority_type === 'court_order' ? 'by court order' : 'under';
+  let text = `${provisionRef} ${label[detail.status]} ${source}: ${detail.authority}`;
+  if (detail.effective_date) text += ` (since ${detail.effective_date})`;
+  if (detail.end_date) text += `, until ${detail.end_date}`;
+  text += '.';
+  if (detail.note) text += ` ${detail.note}`;
+  return text;
+}
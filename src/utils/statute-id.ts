@@ -39,15 +39,15 @@ export function resolveDocumentId(
   ).get(trimmed) as { id: string } | undefined;
   if (shortNameMatch) return shortNameMatch.id;
 
-  // Title/short_name fuzzy match
+  // Title/short_name fuzzy match (statutes before Bills sharing the same name)
   const titleResult = db.prepare(
-    "SELECT id FROM legal_documents WHERE title LIKE ? OR short_name LIKE ? OR title_en LIKE ? LIMIT 1"
+    "SELECT id FROM legal_documents WHERE title LIKE ? OR short_name LIKE ? OR title_en LIKE ? ORDER BY type != 'statute' LIMIT 1"
   ).get(`%${trimmed}%`, `%${trimmed}%`, `%${trimmed}%`) as { id: string } | undefined;
   if (titleResult) return titleResult.id;
 
   // Case-insensitive fallback
   const lowerResult = db.prepare(
-    "SELECT id FROM legal_documents WHERE LOWER(title) LIKE LOWER(?) OR LOWER(short_name) LIKE LOWER(?) OR LOWER(title_en) LIKE LOWER(?) LIMIT 1"
+    "SELECT id FROM legal_documents WHERE LOWER(title) LIKE LOWER(?) OR LOWER(short_name) LIKE LOWER(?) OR LOWER(title_en) LIKE LOWER(?) ORDER BY type != 'statute' LIMIT 1"
   ).get(`%${trimmed}%`, `%${trimmed}%`, `%${trimmed}%`) as { id: string } | undefined;
   if (lowerResult) return lowerResult.id;
 
@@ -0,0 +1,111 @@
+/**
+ * Kenyan legal thesaurus for query-time expansion.
+ *
+ * Each entry is a set of interchangeable terms: an abbreviation and the words
+ * the statutes actually use, British and American spellings, or an English term
+ * and its Kiswahili equivalent. A query containing any member of a set also
+ * matches the others.
+ */
+
+export interface QueryExpansion {
+  /** Words of the query that matched a thesaurus entry. */
+  term: string;
+  /** Terms OR-ed into the search alongside it. */
+  equivalents: string[];
+}
+
+const ABBREVIATIONS: string[][] = [
+  ['ODPC', 'Office of the Data Protection Commissioner', 'Data Commissioner'],
+  ['DPA', 'Data Protection Act'],
+  ['DPIA', 'data protection impact assessment'],
+  ['KYC', 'know your customer', 'customer due diligence'],
+  ['CDD', 'customer due diligence'],
+  ['AML', 'anti-money laundering', 'money laundering'],
+  ['CFT', 'combating the financing of terrorism', 'financing of terrorism', 'terrorist financing', 'terrorism financing'],
+  ['POCAMLA', 'Proceeds of Crime and Anti-Money Laundering Act'],
+  ['FRC', 'Financial Reporting Centre'],
+  ['ARA', 'Assets Recovery Agency'],
+  ['CBK', 'Central Bank of Kenya'],
+  ['PSP', 'payment service provider'],
+  ['e-money', 'electronic money'],
+  ['CAK', 'Competition Authority of Kenya', 'Competition Authority'],
+  ['KICA', 'Kenya Information and Communications Act'],
+  ['CMCA', 'Computer Misuse and Cybercrimes Act'],
+  ['KRA', 'Kenya Revenue Authority'],
+  ['EACC', 'Ethics and Anti-Corruption Commission'],
+  ['DPP', 'Director of Public Prosecutions'],
+];
+
+const SPELLINGS: string[][] = [
+  ['anonymisation', 'anonymization'],
+  ['anonymised', 'anonymized'],
+  ['pseudonymisation', 'pseudonymization'],
+  ['minimisation', 'minimization'],
+  ['organisation', 'organization'],
+  ['organisations', 'organizations'],
+  ['authorisation', 'authorization'],
+  ['authorised', 'authorized'],
+  ['unauthorised', 'unauthorized'],
+  ['recognise', 'recognize'],
+  ['licence', 'license'],
+  ['offence', 'offense'],
+  ['offences', 'offenses'],
+  ['defence', 'defense'],
+  ['centre', 'center'],
+  ['programme', 'program'],
+  ['behaviour', 'behavior'],
+  ['labour', 'labor'],
+  ['judgment', 'judgement'],
+];
+
+const KISWAHILI: string[][] = [
+  ['Constitution', 'Katiba'],
+  ['privacy', 'faragha'],
+  ['court', 'mahakama'],
+  ['Parliament', 'Bunge'],
+  ['rights', 'haki'],
+  ['citizen', 'raia'],
+  ['land', 'ardhi'],
+  ['data protection', 'ulinzi wa data'],
+  ['personal data', 'data binafsi'],
+  ['freedom of expression', 'uhuru wa kujieleza'],
+  ['access to information', 'kupata habari'],
+];
+
+/** Lower-cased term → the other members of its set. */
+const EQUIVALENTS = new Map<string, string[]>();
+for (const set of [...ABBREVIATIONS, ...SPELLINGS, ...KISWAHILI]) {
+  for (const term of set) {
+    const key = term.toLowerCase();
+    const others = set.filter(t => t.toLowerCase() !== key);
+    EQUIVALENTS.set(key, [...new Set([...(EQUIVALENTS.get(key) ?? []), ...others])]);
+  }
+}
+
+const LONGEST_TERM = Math.max(...[...EQUIVALENTS.keys()].map(k => k.split(' ').length));
+
+/**
+ * Thesaurus entries found in a sanitized query, left to right. Where entries
+ * overlap the longest wins ("data protection act" over "data protection").
+ */
+export function findQueryExpansions(sanitized: string): QueryExpansion[] {
+  const words = sanitized.split(/\s+/).filter(w => w.length > 0);
+  const expansions: QueryExpansion[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    let matched = 0;
+    for (let n = Math.min(LONGEST_TERM, words.length - i); n > 0; n--) {
+      const term = words.slice(i, i + n).join(' ');
+      const equivalents = EQUIVALENTS.get(term.toLowerCase());
+      if (equivalents) {
+        expansions.push({ term, equivalents });
+        matched = n;
+        break;
+      }
+    }
+    i += matched || 1;
+  }
+
+  return expansions;
+}
@@ -0,0 +1,107 @@
+/**
+ * Word-level diff between two wordings of a provision.
+ */
+
+export interface DiffSpan {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface DiffSummary {
+  inserted_words: number;
+  deleted_words: number;
+  unchanged_words: number;
+  /** Number of inserted or deleted spans. */
+  changed_spans: number;
+}
+
+function pushSpan(spans: DiffSpan[], type: DiffSpan['type'], words: string[]): void {
+  if (words.length === 0) return;
+  const last = spans[spans.length - 1];
+  if (last && last.type === type) {
+    last.text += ` ${words.join(' ')}`;
+  } else {
+    spans.push({ type, text: words.join(' ') });
+  }
+}
+
+/**
+ * Diff two texts word by word (longest common subsequence). Whitespace is
+ * normalised, so reflowed text compares equal. Deletions are reported before
+ * insertions within a change.
+ */
+export function diffWords(before: string, after: string): DiffSpan[] {
+  const a = before.match(/\S+/g) ?? [];
+  const b = after.match(/\S+/g) ?? [];
+
+  // Common prefix and suffix keep the table small for typical amendments
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const spans: DiffSpan[] = [];
+  pushSpan(spans, 'equal', a.slice(0, start));
+
+  let i = 0;
+  let j = 0;
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+  const flush = () => {
+    pushSpan(spans, 'delete', deleted);
+    pushSpan(spans, 'insert', inserted);
+    deleted = [];
+    inserted = [];
+  };
+
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      flush();
+      pushSpan(spans, 'equal', [midA[i]]);
+      i++;
+      j++;
+    } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      deleted.push(midA[i++]);
+    } else {
+      inserted.push(midB[j++]);
+    }
+  }
+  flush();
+
+  pushSpan(spans, 'equal', a.slice(endA));
+  return spans;
+}
+
+/**
+ * Word counts for a diff.
+ */
+export function summarizeDiff(spans: DiffSpan[]): DiffSummary {
+  const summary: DiffSummary = { inserted_words: 0, deleted_words: 0, unchanged_words: 0, changed_spans: 0 };
+  for (const span of spans) {
+    const words = span.text.split(' ').length;
+    if (span.type === 'insert') summary.inserted_words += words;
+    else if (span.type === 'delete') summary.deleted_words += words;
+    else summary.unchanged_words += words;
+    if (span.type !== 'equal') summary.changed_spans++;
+  }
+  return summary;
+}